@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 批次字樣圖產出 CLI：讀取資料夾內所有 TTF/OTF，輸出每個尺寸 × 語言預設的字樣圖
+//
+//   npm run specimens -- <font-dir> [options]
+//
+// 與瀏覽器版共用 src/lib 的排版核心；無瀏覽器字體堆疊，一律以字形路徑模式繪製。
+
+import { parseArgs } from 'node:util';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { SIZES, LANGUAGE_PRESETS, DEFAULT_SINGLE_LINE_TEXT, ImageSize, LanguagePreset, isSingleLineSize, getDefaultFontSize, getSpecimenKind, isPagedSpecimenKind } from '../src/lib/presets';
+import { LoadedFont, SpecimenSettings, getActiveTypography, fitSpecimenText, hasOverflow } from '../src/lib/specimen';
+import { ExportFormat, MIN_EXPORT_SCALE, MAX_EXPORT_SCALE, getExportDpi, getScaleForDpi, getScaleSuffix, getPageSuffix, getFontBaseName, getUniqueFileName, isExportFormat, isExportScale } from '../src/lib/export';
+import { isSizeTemplate, parseSizeTemplate } from '../src/lib/sizeTemplates';
+import { createSpecimenBook } from '../src/lib/specimenBook';
+import { parseCopyrightProfile } from '../src/lib/copyright';
+import { SpecimenBackground, SpecimenTheme, parseSpecimenTheme, getExportTheme } from '../src/lib/theme';
+import { loadFontFile, loadHeadlessCopyright, renderSingleFontFile, renderComparisonFile, renderSpecimenPageFiles, createHeadlessCanvas } from '../src/headless/render';
+
+const USAGE = `Usage: npm run specimens -- <font-dir> [options]
+
+Options:
+  -o, --out <dir>            Output folder (default: ./specimens)
+  -f, --format <list>        Comma-separated formats: png,jpg,pdf,svg (default: png)
+  -s, --sizes <list>         Comma-separated sizes or template ids, e.g. 1055x127,700x166 (default: all)
+      --scale <n>            Export scale, e.g. 2 or 3; layout stays the same (default: 1)
+      --dpi <n>              Export resolution instead of --scale; 72 DPI is 1x
+      --custom-size <WxH>    Dimensions of the custom size (default: 1000x1000)
+      --templates <file>     Size templates exported from the web app (JSON)
+  -l, --langs <list>         Comma-separated language preset ids (default: all)
+      --text <string>        Single-line text for the 1055x127 size
+      --font-size <px>       Font size (default: size-specific)
+      --line-height <n>      Line height for sizes without a fixed value (default: 1.2)
+      --letter-spacing <px>  Letter spacing for sizes without a fixed value (default: 0)
+      --auto-fit             Fit the largest font size per font and size (ignores --font-size)
+      --fit-spacing          With --auto-fit, also tighten letter spacing down to -0.1em
+      --guides               Draw the metric guides (baseline, x-height, cap height, line boxes) into text specimens
+      --copyright            Draw the copyright block
+      --copyright-profiles <file>
+                             Copyright profiles exported from the web app (JSON)
+      --copyright-profile <id>
+                             Profile for the copyright block and watermark (implies --copyright)
+      --foreground <#hex>    Text colour (default: #000000)
+      --background <value>   Background: #hex or transparent (default: the size's background)
+      --gradient <from,to[,angle]>
+                             Gradient background, e.g. #ffffff,#d4d4d4,90 (angle 0 = left to right)
+      --matte <#hex>         Fill for transparent backgrounds in JPG (default: #ffffff)
+      --book                 Also write specimen-book.pdf covering every font and language
+  -h, --help                 Show this help`;
+
+const parseList = (value: string | undefined) =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+const parseNumber = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} must be a number, got "${value}"`);
+  return parsed;
+};
+
+const parseDimensions = (value: string) => {
+  const match = /^(\d+)x(\d+)$/.exec(value);
+  if (!match) throw new Error(`Invalid dimensions "${value}", expected WxH`);
+  return { width: parseInt(match[1]), height: parseInt(match[2]) };
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'specimens' },
+      format: { type: 'string', short: 'f', default: 'png' },
+      sizes: { type: 'string', short: 's' },
+      scale: { type: 'string' },
+      dpi: { type: 'string' },
+      'custom-size': { type: 'string', default: '1000x1000' },
+      templates: { type: 'string' },
+      langs: { type: 'string', short: 'l' },
+      text: { type: 'string', default: DEFAULT_SINGLE_LINE_TEXT },
+      'font-size': { type: 'string' },
+      'line-height': { type: 'string', default: '1.2' },
+      'letter-spacing': { type: 'string', default: '0' },
+      'auto-fit': { type: 'boolean', default: false },
+      'fit-spacing': { type: 'boolean', default: false },
+      guides: { type: 'boolean', default: false },
+      copyright: { type: 'boolean', default: false },
+      'copyright-profiles': { type: 'string' },
+      'copyright-profile': { type: 'string' },
+      foreground: { type: 'string' },
+      background: { type: 'string' },
+      gradient: { type: 'string' },
+      matte: { type: 'string' },
+      book: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const formats = parseList(values.format) as ExportFormat[];
+  const unknownFormat = formats.find(format => !isExportFormat(format));
+  if (unknownFormat) throw new Error(`Unknown format "${unknownFormat}"`);
+
+  if (values.scale && values.dpi) throw new Error('--scale and --dpi cannot be combined');
+  const dpi = parseNumber(values.dpi, 'dpi');
+  const scale = dpi !== undefined ? getScaleForDpi(dpi) : parseNumber(values.scale, 'scale') ?? 1;
+  if (!isExportScale(scale)) {
+    throw new Error(`Export scale must be between ${MIN_EXPORT_SCALE} and ${Number(MAX_EXPORT_SCALE.toFixed(2))} (${getExportDpi(MIN_EXPORT_SCALE)}-${getExportDpi(MAX_EXPORT_SCALE)} DPI)`);
+  }
+
+  const customSize = parseDimensions(values['custom-size']);
+  const templates = values.templates
+    ? [JSON.parse(await readFile(values.templates, 'utf8'))].flat().map(parseSizeTemplate)
+    : [];
+  const allSizes: ImageSize[] = [
+    ...SIZES.map(size => (size.isCustom ? { ...size, ...customSize } : size)),
+    ...templates,
+  ];
+  // 範本以 id 命名，避免與相同尺寸的內建規範衝突
+  const getSizeName = (size: ImageSize) => (isSizeTemplate(size) ? size.id : `${size.width}x${size.height}`);
+  const sizeFilter = parseList(values.sizes);
+  const sizes = sizeFilter
+    ? sizeFilter.map(key => {
+        const size = allSizes.find(s => getSizeName(s) === key);
+        if (!size) throw new Error(`Unknown size "${key}"`);
+        return size;
+      })
+    : allSizes;
+
+  const copyrightProfiles = values['copyright-profiles']
+    ? [JSON.parse(await readFile(values['copyright-profiles'], 'utf8'))].flat().map(parseCopyrightProfile)
+    : [];
+  const profileId = values['copyright-profile'];
+  const profile = profileId ? copyrightProfiles.find(p => p.id === profileId) : undefined;
+  if (profileId && !profile) throw new Error(`Unknown copyright profile "${profileId}"`);
+  const showCopyright = values.copyright || profile !== undefined;
+  const copyright = profile ? await loadHeadlessCopyright(profile) : undefined;
+
+  if (values.background && values.gradient) throw new Error('--background and --gradient cannot be combined');
+  let background: SpecimenBackground | undefined;
+  if (values.gradient) {
+    const [from, to, angle] = parseList(values.gradient) as string[];
+    background = { type: 'gradient', from, to, angle: parseNumber(angle, 'gradient angle') ?? 90 };
+  } else if (values.background) {
+    background = values.background === 'transparent' ? { type: 'transparent' } : { type: 'solid', color: values.background };
+  }
+  // 與網頁版匯入的配色走同一份驗證
+  const theme: SpecimenTheme = parseSpecimenTheme({ foreground: values.foreground, background, matte: values.matte });
+
+  const langFilter = parseList(values.langs);
+  const languages = LANGUAGE_PRESETS.filter(lang => lang.content.length > 0 && (!langFilter || langFilter.includes(lang.id)));
+  if (languages.length === 0) throw new Error('No language presets selected');
+
+  const adjustments = {
+    fontSize: parseNumber(values['font-size'], 'font-size'),
+    lineHeight: parseNumber(values['line-height'], 'line-height') as number,
+    letterSpacing: parseNumber(values['letter-spacing'], 'letter-spacing') as number,
+  };
+
+  const inputDir = positionals[0];
+  const fontFiles = (await readdir(inputDir))
+    .filter(name => /\.(ttf|otf)$/i.test(name))
+    .sort();
+  if (fontFiles.length === 0) throw new Error(`No TTF/OTF files found in ${inputDir}`);
+  // A.ttf 與 A.otf 去掉副檔名後同名，此時保留副檔名作為輸出檔名的字首，才分得出是哪個檔案
+  const baseNames = fontFiles.map(getFontBaseName);
+  const getFontId = (index: number) =>
+    baseNames.indexOf(baseNames[index]) !== baseNames.lastIndexOf(baseNames[index]) ? fontFiles[index] : baseNames[index];
+
+  // 單行字樣不來自語言預設，方向與字級改由文字本身與尺寸決定
+  const getSettings = (size: ImageSize, languageId: string, text: string, preset?: LanguagePreset): SpecimenSettings => ({
+    size,
+    languageId,
+    text,
+    direction: preset?.direction,
+    ...getActiveTypography(size, {
+      ...adjustments,
+      fontSize: adjustments.fontSize ?? getDefaultFontSize(size, preset),
+    }),
+    renderMode: 'glyph',
+    showCopyright,
+    copyright,
+    autoFit: values['auto-fit'] ? (values['fit-spacing'] ? 'size-and-spacing' : 'size') : undefined,
+    metricGuides: values.guides,
+  });
+
+  // 各字體字寬不同，溢出逐一回報
+  const measureContext = createHeadlessCanvas(1, 1).getContext('2d') as unknown as CanvasRenderingContext2D;
+  const reportOverflow = (font: LoadedFont, settings: SpecimenSettings, name: string) => {
+    const { fontSize, letterSpacing, overflow } = fitSpecimenText(measureContext, font, settings, settings.size.width, settings.size.height);
+    if (hasOverflow(overflow)) {
+      const parts = [overflow.x > 0 && `${Math.ceil(overflow.x)}px wide`, overflow.y > 0 && `${Math.ceil(overflow.y)}px tall`].filter(Boolean);
+      console.warn(`  ! ${name}: text overflows by ${parts.join(', ')} at ${fontSize}px / ${letterSpacing}px spacing`);
+    }
+  };
+
+  // 字重比較需要全部字體，於逐一輸出後另外合併為單一檔案
+  const comparisonSizes = sizes.filter(size => getSpecimenKind(size) === 'comparison');
+  const perFontSizes = sizes.filter(size => getSpecimenKind(size) !== 'comparison');
+
+  await mkdir(values.out, { recursive: true });
+
+  let written = 0;
+  let failed = 0;
+  const loadedFonts: LoadedFont[] = [];
+
+  // 同一次執行內的檔名不重複（例如範本 id 與內建尺寸同名），後寫入的檔案不會覆寫先前的輸出
+  const usedNames = new Set<string>();
+  const writeOutput = async (fileName: string, data: Uint8Array) => {
+    await writeFile(path.join(values.out, getUniqueFileName(fileName, usedNames)), data);
+    written++;
+  };
+
+  for (const [index, fontFile] of fontFiles.entries()) {
+    let font: LoadedFont;
+    try {
+      font = await loadFontFile(path.join(inputDir, fontFile), getFontId(index));
+    } catch (err) {
+      console.error(`Error loading font ${fontFile}:`, err);
+      failed++;
+      continue;
+    }
+    loadedFonts.push(font);
+
+    for (const size of perFontSizes) {
+      // 單行尺寸的字樣與分頁版面（字元表、字距校樣）皆與語言預設無關，只輸出一次
+      const jobs = isSingleLineSize(size) || isPagedSpecimenKind(getSpecimenKind(size))
+        ? [{ languageId: 'en', text: values.text, suffix: '', preset: undefined }]
+        : languages.map(lang => ({ languageId: lang.id, text: lang.content, suffix: `-${lang.id}`, preset: lang }));
+
+      for (const job of jobs) {
+        const settings = getSettings(size, job.languageId, job.text, job.preset);
+        if (getSpecimenKind(size) === 'text') {
+          reportOverflow(font, settings, `${font.id}-${getSizeName(size)}${job.suffix}`);
+        }
+
+        for (const format of formats) {
+          const themed = { ...settings, theme: getExportTheme(theme, format) };
+          if (isPagedSpecimenKind(getSpecimenKind(size))) {
+            // 分頁版面可能跨多頁：點陣與 SVG 每頁一個檔案，PDF 為單一多頁文件
+            const pages = await renderSpecimenPageFiles(font, themed, size.width, size.height, format, scale);
+            for (const [page, data] of pages.entries()) {
+              const pageSuffix = pages.length > 1 ? getPageSuffix(page, pages.length) : '';
+              await writeOutput(`${font.id}-${getSizeName(size)}${pageSuffix}${getScaleSuffix(scale)}.${format}`, data);
+            }
+            continue;
+          }
+          const fileName = `${font.id}-${getSizeName(size)}${job.suffix}${getScaleSuffix(scale)}.${format}`;
+          await writeOutput(fileName, renderSingleFontFile(font, themed, size.width, size.height, format, scale));
+        }
+      }
+    }
+    console.log(`✓ ${fontFile}`);
+  }
+
+  if (loadedFonts.length > 0) {
+    for (const size of comparisonSizes) {
+      const settings = getSettings(size, 'en', values.text);
+      for (const format of formats) {
+        const fileName = `comparison-${getSizeName(size)}${getScaleSuffix(scale)}.${format}`;
+        const themed = { ...settings, theme: getExportTheme(theme, format) };
+        await writeOutput(fileName, renderComparisonFile(loadedFonts, themed, size.width, size.height, format, scale));
+      }
+    }
+  }
+
+  if (values.book && loadedFonts.length > 0) {
+    const book = await createSpecimenBook(loadedFonts, {
+      title: 'HyFont Specimen Book',
+      presets: languages,
+      fontSize: adjustments.fontSize ?? 28,
+      lineHeight: adjustments.lineHeight,
+      letterSpacing: adjustments.letterSpacing,
+      renderMode: 'glyph',
+      showCopyright,
+      copyright,
+      createCanvas: createHeadlessCanvas,
+    });
+    await writeOutput('specimen-book.pdf', Buffer.from(book.output('arraybuffer')));
+  }
+
+  console.log(`${written} file(s) written to ${values.out}${failed > 0 ? `, ${failed} font(s) failed` : ''}`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { JobParams } from './jobParams';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type FontRecord = {
+  id: string;
+  fileName: string;
+  path: string;
+  createdAt: string;
+};
+
+export type JobRecord = {
+  id: string;
+  status: JobStatus;
+  params: JobParams;
+  error: string | null;
+  files: string[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+type JobRow = {
+  id: string;
+  status: JobStatus;
+  params: string;
+  error: string | null;
+  files: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS fonts (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    path TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    params TEXT NOT NULL,
+    error TEXT,
+    files TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    started_at TEXT,
+    finished_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS jobs_status_created ON jobs (status, created_at);
+`;
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+const toJobRecord = (row: JobRow): JobRecord => ({
+  id: row.id,
+  status: row.status,
+  params: JSON.parse(row.params),
+  error: row.error,
+  files: row.files ? JSON.parse(row.files) : [],
+  createdAt: row.created_at,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+export const openStore = (filePath: string) => {
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const insertFont = (font: Omit<FontRecord, 'createdAt'>) => {
+    db.prepare('INSERT INTO fonts (id, file_name, path) VALUES (?, ?, ?)').run(font.id, font.fileName, font.path);
+  };
+
+  const getFont = (id: string): FontRecord | undefined =>
+    db.prepare('SELECT id, file_name AS fileName, path, created_at AS createdAt FROM fonts WHERE id = ?').get(id) as FontRecord | undefined;
+
+  const listFonts = (): FontRecord[] =>
+    db.prepare('SELECT id, file_name AS fileName, path, created_at AS createdAt FROM fonts ORDER BY created_at DESC').all() as FontRecord[];
+
+  const insertJob = (id: string, params: JobParams) => {
+    db.prepare("INSERT INTO jobs (id, status, params) VALUES (?, 'queued', ?)").run(id, JSON.stringify(params));
+  };
+
+  const getJob = (id: string) => {
+    const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row ? toJobRecord(row) : undefined;
+  };
+
+  const listJobs = (limit: number) =>
+    (db.prepare('SELECT * FROM jobs ORDER BY created_at DESC, rowid DESC LIMIT ?').all(limit) as JobRow[]).map(toJobRecord);
+
+  // 取出最早排隊的工作並標記為執行中（同一交易內完成，避免重複領取）
+  const claimNextJob = db.transaction((): JobRecord | undefined => {
+    const row = db.prepare("SELECT * FROM jobs WHERE status = 'queued' ORDER BY created_at, rowid LIMIT 1").get() as JobRow | undefined;
+    if (!row) return undefined;
+    db.prepare("UPDATE jobs SET status = 'running', started_at = datetime('now') WHERE id = ?").run(row.id);
+    return toJobRecord({ ...row, status: 'running' });
+  });
+
+  const completeJob = (id: string, files: string[]) => {
+    db.prepare("UPDATE jobs SET status = 'done', files = ?, finished_at = datetime('now') WHERE id = ?").run(JSON.stringify(files), id);
+  };
+
+  const failJob = (id: string, error: string) => {
+    db.prepare("UPDATE jobs SET status = 'failed', error = ?, finished_at = datetime('now') WHERE id = ?").run(error, id);
+  };
+
+  // 服務中斷時仍在執行的工作重新排隊
+  const requeueInterruptedJobs = () =>
+    db.prepare("UPDATE jobs SET status = 'queued', started_at = NULL WHERE status = 'running'").run().changes;
+
+  return {
+    insertFont,
+    getFont,
+    listFonts,
+    insertJob,
+    getJob,
+    listJobs,
+    claimNextJob,
+    completeJob,
+    failJob,
+    requeueInterruptedJobs,
+    close: () => db.close(),
+  };
+};
+
+export type Store = ReturnType<typeof openStore>;
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 本機字樣圖渲染服務
+//
+//   POST /api/fonts                          上傳字體（request body 為字體檔本身，檔名放在 X-File-Name）
+//   POST /api/jobs                           排入渲染工作（JSON，參數見 jobParams.ts）
+//   GET  /api/jobs/:id                       查詢工作狀態與產出檔案
+//   GET  /api/jobs/:id/files/:fileName       下載產出檔案
+
+import 'dotenv/config';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import express, { NextFunction, Request, Response } from 'express';
+import { createId, openStore } from './db';
+import { ValidationError, parseJobParams } from './jobParams';
+import { createRenderQueue } from './queue';
+import { parseFontBuffer } from '../src/headless/render';
+import { FontMetadata, getFontMetadata } from '../src/lib/fontMetadata';
+
+const PORT = Number(process.env.PORT ?? 3001);
+// 服務沒有驗證機制，預設只接受本機連線；需要時以 HOST 開放其他介面
+const HOST = process.env.HOST ?? '127.0.0.1';
+const DATA_DIR = path.resolve(process.env.SPECIMEN_DATA_DIR ?? 'server-data');
+const FONTS_DIR = path.join(DATA_DIR, 'fonts');
+const OUTPUT_DIR = path.join(DATA_DIR, 'output');
+const MAX_FONT_SIZE = '50mb';
+
+mkdirSync(FONTS_DIR, { recursive: true });
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const store = openStore(path.join(DATA_DIR, 'specimens.db'));
+const queue = createRenderQueue(store, OUTPUT_DIR);
+
+const app = express();
+
+app.post('/api/fonts', express.raw({ type: () => true, limit: MAX_FONT_SIZE }), (req, res) => {
+  const header = req.get('X-File-Name');
+  let fileName: unknown = req.query.name;
+  if (header) {
+    try {
+      fileName = decodeURIComponent(header);
+    } catch {
+      throw new ValidationError('X-File-Name must be a URI-encoded file name');
+    }
+  }
+  if (typeof fileName !== 'string' || !/\.(ttf|otf)$/i.test(fileName)) {
+    throw new ValidationError('A .ttf or .otf file name is required (X-File-Name header or ?name=)');
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new ValidationError('Request body must contain the font file');
+  }
+
+  const id = createId('font');
+  let metadata: FontMetadata;
+  try {
+    metadata = getFontMetadata(parseFontBuffer(req.body, fileName, id).font);
+  } catch (err) {
+    throw new ValidationError(`Could not parse ${fileName}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const fontPath = path.join(FONTS_DIR, `${id}${path.extname(fileName).toLowerCase()}`);
+  writeFileSync(fontPath, req.body);
+  store.insertFont({ id, fileName, path: fontPath });
+
+  res.status(201).json({ id, fileName, metadata });
+});
+
+app.get('/api/fonts', (_req, res) => {
+  res.json(store.listFonts().map(({ id, fileName, createdAt }) => ({ id, fileName, createdAt })));
+});
+
+app.post('/api/jobs', express.json(), (req, res) => {
+  const params = parseJobParams(req.body);
+  const unknownFont = params.fontIds.find(id => !store.getFont(id));
+  if (unknownFont) {
+    throw new ValidationError(`Unknown font "${unknownFont}"`);
+  }
+
+  const id = createId('job');
+  store.insertJob(id, params);
+  queue.enqueue();
+
+  res.status(202).json(store.getJob(id));
+});
+
+app.get('/api/jobs', (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 50, 500);
+  res.json(store.listJobs(limit));
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = store.getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  res.json({
+    ...job,
+    files: job.files.map(fileName => ({ fileName, url: `/api/jobs/${job.id}/files/${encodeURIComponent(fileName)}` })),
+  });
+});
+
+app.get('/api/jobs/:id/files/:fileName', (req, res) => {
+  const job = store.getJob(req.params.id);
+  if (!job || !job.files.includes(req.params.fileName)) {
+    res.status(404).json({ error: 'File not found' });
+    return;
+  }
+  res.download(path.join(OUTPUT_DIR, job.id, req.params.fileName), req.params.fileName);
+});
+
+// body-parser 的錯誤（JSON 格式錯誤 400、超過大小上限 413）帶有 status，屬於用戶端錯誤
+const getClientErrorStatus = (err: Error & { status?: number; statusCode?: number }) => {
+  const status = err.status ?? err.statusCode;
+  return typeof status === 'number' && status >= 400 && status < 500 ? status : null;
+};
+
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  if (err instanceof ValidationError) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+  const clientStatus = getClientErrorStatus(err);
+  if (clientStatus) {
+    res.status(clientStatus).json({ error: err.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+const interrupted = store.requeueInterruptedJobs();
+if (interrupted > 0) {
+  console.log(`Re-queued ${interrupted} interrupted job(s)`);
+}
+queue.enqueue();
+
+app.listen(PORT, HOST, () => {
+  console.log(`Specimen render service listening on http://${HOST}:${PORT}`);
+});
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 渲染工作參數：與瀏覽器版 downloadImage 相同的設定項目
+
+import { SIZES, LANGUAGE_PRESETS, DEFAULT_SINGLE_LINE_TEXT, ImageSize, SpecimenKind, SPECIMEN_KINDS, isSingleLineSize, getDefaultFontSize, getSpecimenKind } from '../src/lib/presets';
+import { SpecimenSettings, AutoFitMode, CollageOptions, CollageLayout, CollageBorderStyle, DEFAULT_COLLAGE_OPTIONS, getActiveTypography } from '../src/lib/specimen';
+import { ExportFormat, EXPORT_FORMATS, MIN_EXPORT_SCALE, MAX_EXPORT_SCALE, getExportDpi, getScaleForDpi, isExportFormat, isExportScale } from '../src/lib/export';
+import { CopyrightProfile, parseCopyrightProfile } from '../src/lib/copyright';
+import { SpecimenTheme, parseSpecimenTheme, getExportTheme } from '../src/lib/theme';
+
+export type JobParams = {
+  fontIds: string[];
+  /** Layout to render; `text` when absent, whatever the dimensions. */
+  kind?: SpecimenKind;
+  width: number;
+  height: number;
+  language: string;
+  text?: string;
+  fontSize?: number;
+  lineHeight?: number;
+  letterSpacing?: number;
+  autoFit?: AutoFitMode;
+  /** Draws the metric guides into text specimens. */
+  metricGuides: boolean;
+  format: ExportFormat;
+  /** Pixel density multiplier; the layout stays at `width` × `height`. */
+  scale?: number;
+  collage: boolean;
+  collageLayout?: CollageLayout;
+  collageColumns?: number;
+  gutter?: number;
+  margin?: number;
+  border?: CollageBorderStyle;
+  copyright: boolean;
+  /** Profile for the copyright block and watermark; the built-in profile when absent. */
+  copyrightProfile?: CopyrightProfile;
+  /** Foreground and background colours; black on the size's background when absent. */
+  theme?: SpecimenTheme;
+};
+
+const COLLAGE_LAYOUTS: CollageLayout[] = ['grid', 'vertical', 'horizontal', 'columns'];
+const BORDER_STYLES: CollageBorderStyle[] = ['solid', 'dashed', 'none'];
+const AUTO_FIT_MODES: AutoFitMode[] = ['size', 'size-and-spacing'];
+
+export class ValidationError extends Error {}
+
+const CUSTOM_MIN = 400;
+const CUSTOM_MAX = 5000;
+
+const optionalNumber = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(`"${key}" must be a number`);
+  }
+  return value;
+};
+
+/**
+ * Fixed sizes are matched by dimensions and kind, so a text job at 1200 x 600 stays text;
+ * anything else uses the custom size spec with the requested kind.
+ */
+export const resolveImageSize = (width: number, height: number, kind: SpecimenKind = 'text'): ImageSize => {
+  const fixed = SIZES.find(size => !size.isCustom && size.width === width && size.height === height && getSpecimenKind(size) === kind);
+  if (fixed) return fixed;
+  const custom = SIZES.find(size => size.isCustom) as ImageSize;
+  return { ...custom, width, height, kind: kind === 'text' ? undefined : kind };
+};
+
+export const parseJobParams = (input: unknown): JobParams => {
+  if (typeof input !== 'object' || input === null) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const body = input as Record<string, unknown>;
+
+  const { fontIds } = body;
+  if (!Array.isArray(fontIds) || fontIds.length === 0 || !fontIds.every(id => typeof id === 'string')) {
+    throw new ValidationError('"fontIds" must be a non-empty array of font ids');
+  }
+
+  const width = optionalNumber(body, 'width');
+  const height = optionalNumber(body, 'height');
+  if (width === undefined || height === undefined) {
+    throw new ValidationError('"width" and "height" are required');
+  }
+  const kind = body.kind ?? 'text';
+  if (!SPECIMEN_KINDS.includes(kind as SpecimenKind)) {
+    throw new ValidationError(`"kind" must be one of ${SPECIMEN_KINDS.join(', ')}`);
+  }
+  const size = resolveImageSize(width, height, kind as SpecimenKind);
+  if (size.isCustom && [width, height].some(d => d < CUSTOM_MIN || d > CUSTOM_MAX)) {
+    throw new ValidationError(`Custom sizes must be between ${CUSTOM_MIN} and ${CUSTOM_MAX}px`);
+  }
+
+  const language = body.language ?? 'en';
+  if (typeof language !== 'string' || !LANGUAGE_PRESETS.some(lang => lang.id === language)) {
+    throw new ValidationError(`Unknown language "${language}"`);
+  }
+
+  const text = body.text as string | undefined;
+  if (text !== undefined && typeof text !== 'string') {
+    throw new ValidationError('"text" must be a string');
+  }
+  if (language === 'custom' && !text && !isSingleLineSize(size)) {
+    throw new ValidationError('"text" is required for the custom language');
+  }
+
+  const format = body.format ?? 'png';
+  if (!isExportFormat(format)) {
+    throw new ValidationError(`"format" must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  // dpi 為 scale 的另一種寫法，72 DPI 即 1×
+  const dpi = optionalNumber(body, 'dpi');
+  if (dpi !== undefined && body.scale !== undefined) {
+    throw new ValidationError('"scale" and "dpi" cannot be combined');
+  }
+  const scale = dpi !== undefined ? getScaleForDpi(dpi) : optionalNumber(body, 'scale');
+  if (scale !== undefined && !isExportScale(scale)) {
+    throw new ValidationError(`"scale" must be between ${MIN_EXPORT_SCALE} and ${Number(MAX_EXPORT_SCALE.toFixed(2))} (${getExportDpi(MIN_EXPORT_SCALE)}-${getExportDpi(MAX_EXPORT_SCALE)} DPI)`);
+  }
+
+  const collageLayout = body.collageLayout as CollageLayout | undefined;
+  if (collageLayout !== undefined && !COLLAGE_LAYOUTS.includes(collageLayout)) {
+    throw new ValidationError(`"collageLayout" must be one of ${COLLAGE_LAYOUTS.join(', ')}`);
+  }
+  const border = body.border as CollageBorderStyle | undefined;
+  if (border !== undefined && !BORDER_STYLES.includes(border)) {
+    throw new ValidationError(`"border" must be one of ${BORDER_STYLES.join(', ')}`);
+  }
+  const autoFit = body.autoFit as AutoFitMode | undefined;
+  if (autoFit !== undefined && !AUTO_FIT_MODES.includes(autoFit)) {
+    throw new ValidationError(`"autoFit" must be one of ${AUTO_FIT_MODES.join(', ')}`);
+  }
+  let copyrightProfile: CopyrightProfile | undefined;
+  if (body.copyrightProfile !== undefined) {
+    try {
+      copyrightProfile = parseCopyrightProfile(body.copyrightProfile);
+    } catch (err) {
+      throw new ValidationError(err instanceof Error ? err.message : String(err));
+    }
+  }
+  let theme: SpecimenTheme | undefined;
+  if (body.theme !== undefined) {
+    try {
+      theme = parseSpecimenTheme(body.theme);
+    } catch (err) {
+      throw new ValidationError(err instanceof Error ? err.message : String(err));
+    }
+  }
+  const spacing = ['collageColumns', 'gutter', 'margin'].map(key => {
+    const value = optionalNumber(body, key);
+    if (value !== undefined && value < 0) throw new ValidationError(`"${key}" must not be negative`);
+    return value;
+  });
+
+  return {
+    // 重複的 id 只渲染一次
+    fontIds: Array.from(new Set(fontIds as string[])),
+    kind: kind as SpecimenKind,
+    width,
+    height,
+    language,
+    text,
+    fontSize: optionalNumber(body, 'fontSize'),
+    lineHeight: optionalNumber(body, 'lineHeight'),
+    letterSpacing: optionalNumber(body, 'letterSpacing'),
+    autoFit,
+    metricGuides: body.metricGuides === true,
+    format,
+    scale,
+    collage: body.collage === true,
+    collageLayout,
+    collageColumns: spacing[0],
+    gutter: spacing[1],
+    margin: spacing[2],
+    border,
+    copyright: body.copyright === true || copyrightProfile !== undefined,
+    copyrightProfile,
+    theme,
+  };
+};
+
+export const getJobCollageOptions = (params: JobParams): CollageOptions => ({
+  ...DEFAULT_COLLAGE_OPTIONS,
+  layout: params.collageLayout ?? DEFAULT_COLLAGE_OPTIONS.layout,
+  columns: params.collageColumns ?? DEFAULT_COLLAGE_OPTIONS.columns,
+  gutter: params.gutter ?? DEFAULT_COLLAGE_OPTIONS.gutter,
+  margin: params.margin ?? DEFAULT_COLLAGE_OPTIONS.margin,
+  borderStyle: params.border ?? DEFAULT_COLLAGE_OPTIONS.borderStyle,
+});
+
+export const getJobSettings = (params: JobParams): SpecimenSettings => {
+  const size = resolveImageSize(params.width, params.height, params.kind);
+  const preset = LANGUAGE_PRESETS.find(lang => lang.id === params.language);
+  const defaultText = isSingleLineSize(size) ? DEFAULT_SINGLE_LINE_TEXT : preset?.content ?? '';
+  // 自訂字樣或單行字樣的方向依文字本身判斷
+  const usesPresetText = params.text === undefined && !isSingleLineSize(size);
+
+  return {
+    size,
+    languageId: params.language,
+    text: params.text ?? defaultText,
+    direction: usesPresetText ? preset?.direction : undefined,
+    ...getActiveTypography(size, {
+      fontSize: params.fontSize ?? getDefaultFontSize(size, preset),
+      lineHeight: params.lineHeight ?? preset?.recommendedSizes.lineHeight ?? 1.2,
+      letterSpacing: params.letterSpacing ?? 0,
+    }),
+    renderMode: 'glyph',
+    showCopyright: params.copyright,
+    theme: params.theme && getExportTheme(params.theme, params.format),
+    autoFit: params.autoFit,
+    metricGuides: params.metricGuides,
+  };
+};
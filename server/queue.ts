@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { LoadedFont, getCollageSize, getCollageExportSize } from '../src/lib/specimen';
+import { getSpecimenKind, isPagedSpecimenKind } from '../src/lib/presets';
+import { getPageSuffix, getScaleSuffix, getUniqueFileName } from '../src/lib/export';
+import { isVectorFormat } from '../src/lib/vector';
+import { parseFontBuffer, loadHeadlessCopyright, renderSingleFontFile, renderCollageFile, renderComparisonFile, renderSpecimenPageFiles, yieldToEventLoop } from '../src/headless/render';
+import { JobRecord, Store } from './db';
+import { getJobSettings, getJobCollageOptions } from './jobParams';
+
+const renderJob = async (store: Store, job: JobRecord, outputDir: string) => {
+  const { params } = job;
+  const settings = {
+    ...getJobSettings(params),
+    copyright: params.copyrightProfile ? await loadHeadlessCopyright(params.copyrightProfile) : undefined,
+  };
+
+  const fonts: LoadedFont[] = [];
+  for (const fontId of params.fontIds) {
+    const record = store.getFont(fontId);
+    if (!record) throw new Error(`Font ${fontId} no longer exists`);
+    fonts.push(parseFontBuffer(readFileSync(record.path), record.fileName, record.id));
+  }
+
+  const jobDir = path.join(outputDir, job.id);
+  mkdirSync(jobDir, { recursive: true });
+
+  // MyFont.ttf 與 MyFont.otf 去掉副檔名後同名，重複的檔名加上序號，避免互相覆寫
+  const files: string[] = [];
+  const usedNames = new Set<string>();
+  const write = (fileName: string, data: Buffer) => {
+    const uniqueName = getUniqueFileName(fileName, usedNames);
+    writeFileSync(path.join(jobDir, uniqueName), data);
+    files.push(uniqueName);
+  };
+
+  const scale = params.scale ?? 1;
+  const suffix = `${getScaleSuffix(scale)}.${params.format}`;
+  if (getSpecimenKind(settings.size) === 'comparison') {
+    write(`comparison-${params.width}x${params.height}${suffix}`, renderComparisonFile(fonts, settings, params.width, params.height, params.format, scale));
+  } else if (isPagedSpecimenKind(getSpecimenKind(settings.size))) {
+    const kind = getSpecimenKind(settings.size);
+    for (const font of fonts) {
+      const fontName = path.parse(font.fileName).name;
+      const pages = await renderSpecimenPageFiles(font, settings, params.width, params.height, params.format, scale);
+      pages.forEach((data, page) => {
+        const pageSuffix = pages.length > 1 ? getPageSuffix(page, pages.length) : '';
+        write(`${fontName}-${params.width}x${params.height}-${kind}${pageSuffix}${suffix}`, data);
+      });
+    }
+  } else if (params.collage && fonts.length > 1) {
+    const collageOptions = getJobCollageOptions(params);
+    const { width: totalWidth, height: totalHeight } = getCollageSize(fonts.length, params.width, params.height, collageOptions);
+    // 點陣拼貼超過像素上限時以降低後的倍率命名
+    const collageScale = isVectorFormat(params.format)
+      ? scale
+      : getCollageExportSize(fonts.length, params.width, params.height, collageOptions, scale).scale;
+    const fileName = `collage-${Math.round(totalWidth)}x${Math.round(totalHeight)}${getScaleSuffix(collageScale)}.${params.format}`;
+    write(fileName, renderCollageFile(fonts, settings, params.width, params.height, params.format, collageOptions, scale));
+  } else {
+    for (const font of fonts) {
+      const fontName = path.parse(font.fileName).name;
+      write(`${fontName}-${params.width}x${params.height}${suffix}`, renderSingleFontFile(font, settings, params.width, params.height, params.format, scale));
+      await yieldToEventLoop();
+    }
+  }
+  return files;
+};
+
+/** Processes queued jobs one at a time, in submission order. */
+export const createRenderQueue = (store: Store, outputDir: string) => {
+  let isDraining = false;
+
+  const drain = async () => {
+    if (isDraining) return;
+    isDraining = true;
+    try {
+      let job: JobRecord | undefined;
+      while ((job = store.claimNextJob())) {
+        try {
+          store.completeJob(job.id, await renderJob(store, job, outputDir));
+        } catch (err) {
+          console.error(`Render job ${job.id} failed:`, err);
+          store.failJob(job.id, err instanceof Error ? err.message : String(err));
+        }
+        // 工作內每頁、每個字體之後也會讓出事件迴圈；這裡讓工作之間的 HTTP 請求同樣能回應
+        await yieldToEventLoop();
+      }
+    } finally {
+      isDraining = false;
+    }
+  };
+
+  return {
+    enqueue: () => {
+      void drain();
+    },
+  };
+};
@@ -3,117 +3,80 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, Download, Type, Languages, Image as ImageIcon, RefreshCw, ChevronRight, Trash2, LayoutGrid, Settings2, AlertCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Upload, Download, Type, Image as ImageIcon, RefreshCw, ChevronLeft, ChevronRight, Trash2, LayoutGrid, Settings2, AlertCircle, CheckCircle2, BookOpen, SlidersHorizontal, Layers, ListChecks, Pencil, Copy, Plus, FileUp, FileDown, Maximize2, Stamp } from 'lucide-react';
 import * as opentype from 'opentype.js';
-import { jsPDF } from 'jspdf';
-
-type ImageSize = {
-  width: number;
-  height: number;
-  label: string;
-  isCustom?: boolean;
-  description?: string;
-  fixedFontSize?: number;
-  fixedLineHeight?: number;
-  fixedLetterSpacing?: number;
-};
+import { getFontCoverage, formatCodePoint, isPresetUnsupported } from './lib/coverage';
+import { RenderMode } from './lib/textRenderer';
+import { ImageSize, LanguagePreset, SIZES, LANGUAGE_PRESETS, BUILTIN_LANGUAGE_PRESETS, CUSTOM_LANGUAGE_PRESET, DEFAULT_SINGLE_LINE_TEXT, parseLanguagePreset, serializeLanguagePreset, isSingleLineSize, isPresetSpecimenSize, getDefaultFontSize, getSpecimenKind, isPagedSpecimenKind } from './lib/presets';
+import { LoadedFont, SpecimenSettings, AutoFitMode, resolveAutoFit, CollageOptions, CollageLayout, CollageBorderStyle, DEFAULT_COLLAGE_OPTIONS, getActiveTypography, getCollageSize, getCollageExportSize, drawSingleFont, drawMetricGuides, drawCollage, drawWeightComparison, drawFeaturesSheet, getFeaturesSheetHeight, getSpecimenPages, drawFontDiff, getFontDiffPages } from './lib/specimen';
+import { ExportFormat, ManifestEntry, EXPORT_SCALES, MIN_EXPORT_SCALE, MAX_EXPORT_SCALE, createManifest, getExportFileName, getExportMimeType, getExportDpi, getScaleForDpi, getScaleSuffix, getScaledSize, getPageSuffix, isExportScale, clampExportScale, MAX_EXPORT_DIM } from './lib/export';
+import { ZipEntry, createZip } from './lib/zip';
+import { CanvasFactory, createSpecimenBook } from './lib/specimenBook';
+import { createVectorContext, encodeVector, encodeVectorPages, isVectorFormat } from './lib/vector';
+import { getFontMetadata } from './lib/fontMetadata';
+import { InspectionFormat, inspectFont, readTableTags, serializeInspection } from './lib/fontInspector';
+import { FontDiffView, diffFonts } from './lib/fontDiff';
+import { VariationSettings, CANVAS_AXES, getVariationAxes, getNamedInstances, getDefaultVariation, getFontFaceDescriptors, isVariableFont, getRenderedVariation, getUnrenderedAxes, formatVariation } from './lib/variations';
+import { getTextDirection } from './lib/bidi';
+import { FeatureSettings, getFontFeatures, hasCustomFeatures, isFeatureOn } from './lib/features';
+import { LibrarySummary, listLibraryFonts, getLibraryFont, saveLibraryFont, updateLibraryFont, deleteLibraryFont, getFontId } from './fontLibrary';
+import { FontValidation, validateSpecimens, getValidationSeverity, describeValidation } from './lib/validation';
+import { SizeTemplate, createSizeTemplate, getSizeKey, isSizeTemplate, parseSizeTemplate } from './lib/sizeTemplates';
+import { CopyrightProfile, CopyrightStyle, DEFAULT_COPYRIGHT_PROFILE, DEFAULT_COPYRIGHT_STYLE, createProfileId, parseCopyrightProfile, loadCopyrightStyle } from './lib/copyright';
+import { SpecimenTheme, DEFAULT_THEME, getExportTheme, resolveBackground } from './lib/theme';
+import { listCustomPresets, saveCustomPreset, deleteCustomPreset, listSizeTemplates, saveSizeTemplate, deleteSizeTemplate, listCopyrightProfiles, saveCopyrightProfile, deleteCopyrightProfile } from './presetStore';
+import FontLibraryPanel from './components/FontLibraryPanel';
+import LanguagePresetPicker from './components/LanguagePresetPicker';
+import SizeTemplateEditor from './components/SizeTemplateEditor';
+import CopyrightProfileEditor from './components/CopyrightProfileEditor';
+import ThemePicker from './components/ThemePicker';
+import FontInspector from './components/FontInspector';
+import FontDiffPanel from './components/FontDiffPanel';
+
+const COLLAGE_LAYOUT_OPTIONS: { id: CollageLayout; label: string }[] = [
+  { id: 'grid', label: '自動網格' },
+  { id: 'columns', label: '固定欄數' },
+  { id: 'vertical', label: '垂直堆疊' },
+  { id: 'horizontal', label: '水平排列' },
+];
 
-const SIZES: ImageSize[] = [
-  { 
-    width: 1055, 
-    height: 127, 
-    label: '1055 x 127 px', 
-    description: '字體總表字串圖（固定尺寸）',
-    fixedLineHeight: 1.2,
-    fixedLetterSpacing: 0
-  },
-  { 
-    width: 700, 
-    height: 166, 
-    label: '700 x 166 px', 
-    description: '新字體開發字樣圖（固定尺寸）',
-    fixedLineHeight: 1.2,
-    fixedLetterSpacing: 0
-  },
-  { 
-    width: 1000, 
-    height: 1000, 
-    label: '自定義尺寸 (Custom)', 
-    isCustom: true, 
-    description: '版權圖片＆其他' 
-  },
+const COLLAGE_BORDER_OPTIONS: { id: CollageBorderStyle; label: string }[] = [
+  { id: 'solid', label: '實線' },
+  { id: 'dashed', label: '虛線' },
+  { id: 'none', label: '無' },
 ];
 
-type LanguagePreset = {
-  id: string;
-  name: string;
-  content: string;
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#ffffff',
+  backgroundImage: 'repeating-conic-gradient(#e5e5e5 0% 25%, transparent 0% 50%)',
+  backgroundSize: '16px 16px',
 };
 
-const LANGUAGE_PRESETS: LanguagePreset[] = [
-  {
-    id: 'en',
-    name: '英文 (English)',
-    content: `1234567890.,;:!?
-abcdefghijklmnopqrstuvwxyz
-ABCDEFGHIJKLMNOPQRSTUVWXYZ
-"#$%&'()*+-/@[\\]^_` + '`' + `{|}~<=>`,
-  },
-  {
-    id: 'latin-tr',
-    name: '拉丁/土耳其文 (Latin/Turkish)',
-    content: `1234567890.,;:!?
-àbçđêfğhịjklmñøpqrşțüvwxýž
-ÀBÇĐÊFĞHỊJKLMÑØPQRŞȚÜVWXÝŽ
-€℃∂∆∏∑√∞∫≈≠≤≥◊ﬀﬁﬂﬃﬄ`,
-  },
-  {
-    id: 'vi',
-    name: '越南文 (Vietnamese)',
-    content: `1234567890.,;:!?
-ẳbçđêfğhỉjklmñợpqrşțüvwxýž
-ẲBÇĐÊFĞHỈJKLMÑỢPQRŞȚÜVWXÝŽ
-₫€℃∂∆∏∑√∞∫≈≠≤≥◊ﬀﬁﬂﬃﬄ`,
-  },
-  {
-    id: 'th',
-    name: '泰文 (Thai)',
-    content: `1234567890.,;:!?
-๑๒๓๔๕๖๗๘๙๐
-กขฃคฅฆงจฉชซฌญฎฏฐฑฒณดตถทธนบปผฝพฟ
-ภมยรฤลฦวศษสหฬอฮฯๅๆโใไ`,
-  },
-  {
-    id: 'ru',
-    name: '俄文 (Russian)',
-    content: `1234567890.,;:!?
-åвçdëfghijktmñôþqrṣṭúvwxyž
-гдйклмнопрстчшыэюяѓељњќўџА
-°C°F€0fiflß∞бЖжф[]≥=-_√#≥`,
-  },
-  {
-    id: 'ar',
-    name: '阿拉伯文 (Arabic)',
-    content: `0123456789
-نصٌّ حكيمٌ لهُ سِرٌّ قاطِعٌ وَذُو شَأنٍ
-عَظيمٍ مكتوبٌ على ثوبٍ أخضرَ ومُغلفٌ بجلدٍ
-ابجد هوز حطي كلمن سعفص قرشت ثخذ`,
-  },
-  {
-    id: 'custom',
-    name: '其他語言 (Custom)',
-    content: '',
-  },
-];
+const createBrowserCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
 
-type LoadedFont = {
-  id: string;
-  font: opentype.Font;
-  fontFamily: string;
-  fileName: string;
+// 依輸出倍率放大點陣畫布，排版仍以邏輯尺寸繪製
+const createScaledCanvas = (width: number, height: number, scale: number) => {
+  const size = getScaledSize(width, height, scale);
+  const canvas = createBrowserCanvas(size.width, size.height);
+  const ctx = canvas.getContext('2d');
+  ctx?.scale(scale, scale);
+  return { canvas, ctx };
 };
 
+const loadBrowserImage = (src: string) =>
+  new Promise<CanvasImageSource>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+  });
+
 export default function App() {
   const [fonts, setFonts] = useState<LoadedFont[]>([]);
   const [selectedFontId, setSelectedFontId] = useState<string | null>(null);
@@ -121,27 +84,81 @@ export default function App() {
   const [selectedLang, setSelectedLang] = useState<LanguagePreset>(LANGUAGE_PRESETS[0]);
   const [customText, setCustomText] = useState<string>('');
   const [temp700Text, setTemp700Text] = useState<string>(LANGUAGE_PRESETS[0].content);
-  const [singleLineText, setSingleLineText] = useState<string>('The quick brown fox jumps over the lazy dog');
+  const [singleLineText, setSingleLineText] = useState<string>(DEFAULT_SINGLE_LINE_TEXT);
   const [fontSize, setFontSize] = useState<number>(32);
   const [lineHeight, setLineHeight] = useState<number>(1.2);
   const [letterSpacing, setLetterSpacing] = useState<number>(0);
-  const [exportFormat, setExportFormat] = useState<'png' | 'pdf' | 'jpg'>('png');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+  // 輸出倍率；預覽固定以 1× 顯示
+  const [exportScale, setExportScale] = useState<number>(1);
+  // DPI 輸入框的草稿；輸入途中的數字可能無效，離開欄位或按 Enter 時才換算為倍率
+  const [dpiDraft, setDpiDraft] = useState<string | null>(null);
+  const [renderMode, setRenderMode] = useState<RenderMode>('canvas');
+  // 度量參考線：預覽時疊在另一張畫布上；開啟輸出選項後直接畫進字樣圖
+  const [showMetricGuides, setShowMetricGuides] = useState(false);
+  const [burnMetricGuides, setBurnMetricGuides] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   
   // Custom size states
   const [customWidth, setCustomWidth] = useState<number>(1000);
   const [customHeight, setCustomHeight] = useState<number>(1000);
+
+  // Size template states; listed after the built-in sizes
+  const [sizeTemplates, setSizeTemplates] = useState<SizeTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<SizeTemplate | null>(null);
   
   // Collage states
   const [isCollageMode, setIsCollageMode] = useState(false);
-  const [collageLayout, setCollageLayout] = useState<'grid' | 'vertical'>('grid');
+  const [collageOptions, setCollageOptions] = useState<CollageOptions>(DEFAULT_COLLAGE_OPTIONS);
   const [selectedCollageIds, setSelectedCollageIds] = useState<string[]>([]);
 
+  // 版本比較：舊版與新版字體，啟用時預覽與輸出改為比較報告
+  const [isDiffMode, setIsDiffMode] = useState(false);
+  const [diffBeforeId, setDiffBeforeId] = useState<string | null>(null);
+  const [diffAfterId, setDiffAfterId] = useState<string | null>(null);
+  const [diffView, setDiffView] = useState<FontDiffView>('overlay');
+
+  // 分頁預覽（字元表、版本比較）的頁碼（從 0 起算）；輸出時一律輸出所有頁
+  const [previewPage, setPreviewPage] = useState<number>(0);
+
+  // Auto-fit state; undefined keeps the font size and letter spacing chosen by hand
+  const [autoFit, setAutoFit] = useState<AutoFitMode | undefined>(undefined);
+
   // CopyWright states
   const [showCopyright, setShowCopyright] = useState<boolean>(false);
+  const [copyrightProfiles, setCopyrightProfiles] = useState<CopyrightProfile[]>([]);
+  const [selectedCopyrightId, setSelectedCopyrightId] = useState<string>(DEFAULT_COPYRIGHT_PROFILE.id);
+  const [editingProfile, setEditingProfile] = useState<CopyrightProfile | null>(null);
+  // 已解碼標誌圖片的設定檔，繪製時不需再等待載入
+  const [copyrightStyle, setCopyrightStyle] = useState<CopyrightStyle>(DEFAULT_COPYRIGHT_STYLE);
+
+  // 文字與背景配色；JPG 輸出時透明背景改為底色
+  const [theme, setTheme] = useState<SpecimenTheme>(DEFAULT_THEME);
+
+  // Variable font states
+  const [variation, setVariation] = useState<VariationSettings>({});
+
+  // OpenType feature states
+  const [features, setFeatures] = useState<FeatureSettings>({});
+
+  // Coverage states
+  const [expandedCoverageId, setExpandedCoverageId] = useState<string | null>(null);
+
+  // Library states
+  const [libraryEntries, setLibraryEntries] = useState<LibrarySummary[]>([]);
+
+  // Imported language presets, listed between the built-in ones and 「其他語言」
+  const [customPresets, setCustomPresets] = useState<LanguagePreset[]>([]);
+  const languagePresets = useMemo(
+    () => [...BUILTIN_LANGUAGE_PRESETS, ...customPresets, CUSTOM_LANGUAGE_PRESET],
+    [customPresets]
+  );
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const guideCanvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const copyrightInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (selectedLang.id === 'custom') {
@@ -151,34 +168,146 @@ export default function App() {
     }
   }, [selectedLang]);
 
+  const refreshLibrary = () =>
+    listLibraryFonts()
+      .then(setLibraryEntries)
+      .catch(err => console.error('Error reading font library:', err));
+
+  const refreshCustomPresets = () =>
+    listCustomPresets()
+      .then(setCustomPresets)
+      .catch(err => console.error('Error reading language presets:', err));
+
+  const refreshSizeTemplates = () =>
+    listSizeTemplates()
+      .then(setSizeTemplates)
+      .catch(err => console.error('Error reading size templates:', err));
+
+  const refreshCopyrightProfiles = () =>
+    listCopyrightProfiles()
+      .then(setCopyrightProfiles)
+      .catch(err => console.error('Error reading copyright profiles:', err));
+
+  useEffect(() => {
+    refreshLibrary();
+    refreshCustomPresets();
+    refreshSizeTemplates();
+    refreshCopyrightProfiles();
+  }, []);
+
+  const allCopyrightProfiles = [DEFAULT_COPYRIGHT_PROFILE, ...copyrightProfiles];
+  const selectedProfile = allCopyrightProfiles.find(p => p.id === selectedCopyrightId) ?? DEFAULT_COPYRIGHT_PROFILE;
+
+  useEffect(() => {
+    let isCurrent = true;
+    loadCopyrightStyle(selectedProfile, loadBrowserImage)
+      .then(style => {
+        if (isCurrent) setCopyrightStyle(style);
+      })
+      .catch(err => {
+        console.error(`Error loading logo of copyright profile ${selectedProfile.id}:`, err);
+        if (isCurrent) setCopyrightStyle({ profile: selectedProfile });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedProfile]);
+
+  const selectSize = (size: ImageSize) => {
+    setSelectedSize(size);
+    setFontSize(getDefaultFontSize(size, selectedLang));
+  };
+
+  // 切換語言時套用該預設建議的字級與行高
+  const selectLanguage = (lang: LanguagePreset) => {
+    setSelectedLang(lang);
+    setFontSize(getDefaultFontSize(selectedSize, lang));
+    setLineHeight(lang.recommendedSizes.lineHeight);
+  };
+
+  const registerFont = async (arrayBuffer: ArrayBuffer, fileName: string, id: string): Promise<LoadedFont> => {
+    const loadedFont = opentype.parse(arrayBuffer);
+
+    // 可變字體需宣告軸範圍，瀏覽器才會依 font-weight / font-stretch 取用實例而非模擬粗體
+    const fontFace = new FontFace(id, arrayBuffer, getFontFaceDescriptors(loadedFont));
+    await fontFace.load();
+    document.fonts.add(fontFace);
+
+    return {
+      id,
+      font: loadedFont,
+      fontFamily: id,
+      fileName,
+      tableTags: readTableTags(arrayBuffer)
+    };
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
     const newFonts: LoadedFont[] = [];
     const fileList = Array.from(files) as File[];
+    const now = Date.now();
 
     for (const file of fileList) {
       try {
         const arrayBuffer = await file.arrayBuffer();
-        const loadedFont = opentype.parse(arrayBuffer);
-        
-        const id = `font-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        const fontFace = new FontFace(id, arrayBuffer);
-        await fontFace.load();
-        document.fonts.add(fontFace);
-        
-        newFonts.push({
+        const id = await getFontId(arrayBuffer);
+        if (fonts.some(f => f.id === id) || newFonts.some(f => f.id === id)) continue;
+
+        const loaded = await registerFont(arrayBuffer, file.name, id);
+        newFonts.push(loaded);
+
+        const existing = libraryEntries.find(entry => entry.id === id);
+        await saveLibraryFont({
           id,
-          font: loadedFont,
-          fontFamily: id,
-          fileName: file.name
-        });
+          fileName: file.name,
+          data: arrayBuffer,
+          metadata: getFontMetadata(loaded.font),
+          tags: existing?.tags ?? [],
+          addedAt: existing?.addedAt ?? now,
+          lastUsedAt: now,
+        }).catch(err => console.error(`Error saving ${file.name} to library:`, err));
       } catch (err) {
         console.error(`Error loading font ${file.name}:`, err);
       }
     }
 
+    // 允許再次選擇同一個檔案
+    e.target.value = '';
+    addLoadedFonts(newFonts);
+    refreshLibrary();
+  };
+
+  const loadFromLibrary = async (ids: string[]) => {
+    const newFonts: LoadedFont[] = [];
+    for (const id of ids) {
+      if (fonts.some(f => f.id === id)) continue;
+      try {
+        const entry = await getLibraryFont(id);
+        if (!entry) continue;
+        newFonts.push(await registerFont(entry.data, entry.fileName, id));
+        await updateLibraryFont(id, { lastUsedAt: Date.now() });
+      } catch (err) {
+        console.error(`Error loading font ${id} from library:`, err);
+      }
+    }
+    addLoadedFonts(newFonts);
+    refreshLibrary();
+  };
+
+  const deleteFromLibrary = async (id: string) => {
+    await deleteLibraryFont(id).catch(err => console.error(`Error deleting font ${id} from library:`, err));
+    refreshLibrary();
+  };
+
+  const setLibraryTags = async (id: string, tags: string[]) => {
+    await updateLibraryFont(id, { tags }).catch(err => console.error(`Error tagging font ${id}:`, err));
+    refreshLibrary();
+  };
+
+  const addLoadedFonts = (newFonts: LoadedFont[]) => {
     if (newFonts.length > 0) {
       setFonts(prev => {
         const updated = [...prev, ...newFonts];
@@ -188,11 +317,7 @@ export default function App() {
       setSelectedCollageIds(prev => [...prev, ...newFonts.map(f => f.id)]);
       
       // Default font size adjustment
-      if (selectedSize.width === 1055) {
-        setFontSize(32);
-      } else {
-        setFontSize(28);
-      }
+      setFontSize(getDefaultFontSize(selectedSize, selectedLang));
     }
   };
 
@@ -207,6 +332,10 @@ export default function App() {
     setSelectedCollageIds(prev => prev.filter(fid => fid !== id));
   };
 
+  const updateCollageOptions = (patch: Partial<CollageOptions>) => {
+    setCollageOptions(prev => ({ ...prev, ...patch }));
+  };
+
   const toggleCollageSelection = (id: string) => {
     setSelectedCollageIds(prev => 
       prev.includes(id) ? prev.filter(fid => fid !== id) : [...prev, id]
@@ -215,6 +344,21 @@ export default function App() {
 
   const currentFont = fonts.find(f => f.id === selectedFontId);
 
+  useEffect(() => {
+    setVariation(currentFont ? getDefaultVariation(currentFont.font) : {});
+    setFeatures({});
+  }, [currentFont?.id]);
+
+  const variationAxes = currentFont ? getVariationAxes(currentFont.font) : [];
+  const namedInstances = currentFont ? getNamedInstances(currentFont.font) : [];
+  const currentUnrenderedAxes = currentFont ? getUnrenderedAxes(currentFont.font, variation, 'canvas') : [];
+  const fontFeatures = currentFont ? getFontFeatures(currentFont.font) : [];
+
+  const coverageReports = useMemo(
+    () => new Map(fonts.map(f => [f.id, getFontCoverage(f.font, languagePresets)])),
+    [fonts, languagePresets]
+  );
+
   const getActiveDimensions = () => {
     if (selectedSize.isCustom) {
       return { width: customWidth, height: customHeight };
@@ -222,242 +366,79 @@ export default function App() {
     return { width: selectedSize.width, height: selectedSize.height };
   };
 
-  const activeFontSize = selectedSize.fixedFontSize ?? fontSize;
-  const activeLineHeight = selectedSize.fixedLineHeight ?? lineHeight;
-  const activeLetterSpacing = selectedSize.fixedLetterSpacing ?? letterSpacing;
+  const {
+    fontSize: activeFontSize,
+    lineHeight: activeLineHeight,
+    letterSpacing: activeLetterSpacing,
+  } = getActiveTypography(selectedSize, { fontSize, lineHeight, letterSpacing });
+
+  const specimenKind = getSpecimenKind(selectedSize);
+
+  const diffBefore = fonts.find(f => f.id === diffBeforeId);
+  const diffAfter = fonts.find(f => f.id === diffAfterId);
+  const fontDiff = useMemo(
+    () => (diffBefore && diffAfter && diffBefore !== diffAfter ? diffFonts(diffBefore, diffAfter) : null),
+    [diffBefore, diffAfter]
+  );
+  const isDiffLayout = isDiffMode && fontDiff !== null;
+
+  // 階梯字樣與字重比較有各自的版面，不套用組合合併；版本比較優先於其他版面
+  const isCollageLayout = isCollageMode && selectedCollageIds.length > 1 && specimenKind === 'text' && !isDiffLayout;
+  // 已畫進字樣圖時不再疊加，避免重複
+  const isGuideOverlayVisible = showMetricGuides && !burnMetricGuides && specimenKind === 'text' && !isCollageLayout && !isDiffLayout;
+
+  // 向量格式只能輸出字形輪廓，canvas 也無法切換 OpenType 功能；兩者皆改用字形路徑以確保預覽與輸出一致
+  const effectiveRenderMode: RenderMode = isVectorFormat(exportFormat) || hasCustomFeatures(features) ? 'glyph' : renderMode;
 
   const getSpecimenText = () => {
-    const is1055 = selectedSize.width === 1055 && !selectedSize.isCustom;
-    const is700 = selectedSize.width === 700 && !selectedSize.isCustom;
-    
-    if (is700) {
+    if (isPresetSpecimenSize(selectedSize)) {
       return temp700Text;
     }
-    if (is1055) {
+    if (isSingleLineSize(selectedSize)) {
       return singleLineText;
     }
     return selectedLang.id === 'custom' ? customText : selectedLang.content;
   };
 
-  const getWrappedLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, isSingleLine: boolean) => {
-    if (isSingleLine) return [text];
-    
-    const lines: string[] = [];
-    const paragraphs = text.split('\n');
-    
-    // Set letter spacing for measurement
-    (ctx as any).letterSpacing = `${activeLetterSpacing}px`;
-    
-    paragraphs.forEach(p => {
-      if (p.length === 0) {
-        lines.push("");
-        return;
-      }
-      
-      let currentLine = "";
-      const chars = p.split('');
-      
-      for (let i = 0; i < chars.length; i++) {
-        const char = chars[i] as string;
-        const testLine = currentLine + char;
-        const metrics = ctx.measureText(testLine);
-        
-        if (metrics.width > maxWidth && i > 0) {
-          lines.push(currentLine);
-          currentLine = char;
-        } else {
-          currentLine = testLine;
-        }
-      }
-      lines.push(currentLine);
-    });
-    return lines;
-  };
-
-  const drawCopyrightInfo = (
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    fontName: string,
-    languageId: string
-  ) => {
-    if (!showCopyright) return;
-
-    const workName = fontName.replace(/\.[^/.]+$/, '');
-    const text = `作品名称：${workName}\n作者：北京新美互通科技有限公司\n著作权人：北京新美互通科技有限公司`;
-
-    ctx.save();
-    ctx.fillStyle = '#000000';
-
-    const copyrightFontSize = 10; 
-    (ctx as any).letterSpacing = '0px';
-    ctx.font = `${copyrightFontSize}px sans-serif`;
-
-    const lines = text.split('\n');
-    const padding = 8;
-    const lineHeight = copyrightFontSize * 1.6;
-
-    // 根據語言決定位置
-    if (languageId === 'ar') {
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'top';
-      lines.forEach((line, index) => {
-        ctx.fillText(line, padding, padding + index * lineHeight);
-      });
-    } else {
-      ctx.textAlign = 'right';
-      ctx.textBaseline = 'top';
-      lines.forEach((line, index) => {
-        ctx.fillText(line, width - padding, padding + index * lineHeight);
-      });
-    }
-
-    ctx.restore();
-  };
-
-  const drawSingleFont = (ctx: CanvasRenderingContext2D, font: LoadedFont, width: number, height: number) => {
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-    
-    // Background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, width, height);
-
-    // Set font styles
-    ctx.font = `${activeFontSize}px "${font.fontFamily}"`;
-    (ctx as any).letterSpacing = `${activeLetterSpacing}px`;
-    ctx.fillStyle = '#000000';
-    ctx.textBaseline = 'middle';
-    
-    const isRtl = selectedLang.id === 'ar';
-    ctx.direction = isRtl ? 'rtl' : 'ltr';
-    ctx.textAlign = isRtl ? 'right' : 'left';
-
-    const isSingleLineSize = selectedSize.width === 1055 && !selectedSize.isCustom;
-    const rawText = getSpecimenText();
-    
-    const padding = 40;
-    const maxWidth = width - (padding * 2);
-    
-    const lines = getWrappedLines(ctx, rawText, maxWidth, isSingleLineSize);
-    
-    // Calculate total height
-    const totalLinesHeight = lines.length * activeFontSize * activeLineHeight;
-    const startY = (height - totalLinesHeight) / 2 + (activeFontSize * activeLineHeight) / 2;
-    
-    // Alignment
-    const xPos = isRtl ? width - padding : padding;
-
-    lines.forEach((line, index) => {
-      ctx.fillText(line, xPos, startY + index * activeFontSize * activeLineHeight);
-    });
-
-    drawCopyrightInfo(ctx, width, font.fileName, selectedLang.id);
-  };
-
-  const drawCollage = (ctx: CanvasRenderingContext2D, collageFonts: LoadedFont[], totalWidth: number, totalHeight: number, cellWidth: number, cellHeight: number, scale: number = 1) => {
-    ctx.save();
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, totalWidth, totalHeight);
-
-    // Scale everything if we capped at 5000px
-    ctx.scale(scale, scale);
-
-    const count = collageFonts.length;
-    const cols = Math.ceil(Math.sqrt(count));
-
-    for (let i = 0; i < collageFonts.length; i++) {
-      const f = collageFonts[i];
-      const col = i % cols;
-      const row = Math.floor(i / cols);
-      
-      const x = col * cellWidth;
-      const y = row * cellHeight;
-
-      // Draw cell border
-      ctx.strokeStyle = '#e5e5e5';
-      ctx.lineWidth = 1;
-      ctx.strokeRect(x, y, cellWidth, cellHeight);
-
-      // Draw Font Label
-      const labelFontSize = Math.max(14, Math.min(48, Math.round(cellHeight * 0.08)));
-      const labelHeight = Math.round(labelFontSize * 1.8);
-      
-      const workName = f.fileName.replace(/\.[^/.]+$/, '');
-
-      if (showCopyright) {
-        const infoText = `作品名称：${workName}\n作者：北京新美互通科技有限公司\n著作权人：北京新美互通科技有限公司`;
-
-        const lines = infoText.split('\n');
-
-        ctx.fillStyle = '#333333';
-        ctx.font = `bold ${labelFontSize}px sans-serif`;
-        const languageId = selectedLang.id
-        const padding = 8;
-        const lineHeight = labelFontSize * 1.6;
-
-        // 根據語言決定位置
-        if (languageId === 'ar') {
-          ctx.textAlign = 'left';
-          ctx.textBaseline = 'top';
-          lines.forEach((line, index) => {
-            ctx.fillText(line, x + padding, y + padding + index * lineHeight);
-          });
-        } else {
-          ctx.textAlign = 'right';
-          ctx.textBaseline = 'top';
-          lines.forEach((line, index) => {
-            ctx.fillText(line, x + cellWidth - padding, y + padding + index * lineHeight);
-          });
-        }
-      } else {
-        ctx.fillStyle = '#f9f9f9';
-        ctx.fillRect(x + 2, y + 2, cellWidth - 4, labelHeight);
-
-        ctx.fillStyle = '#333333';
-        ctx.font = `bold ${labelFontSize}px sans-serif`;
-        ctx.textAlign = 'left';
-        ctx.textBaseline = 'middle';
-
-        ctx.fillText(
-          workName,
-          x + labelFontSize * 0.75,
-          y + labelHeight / 2 + 2
-        );
-      }
-
-      // Draw Specimen
-      const isSingleLine = selectedSize.width === 1055 && !selectedSize.isCustom;
-      const rawText = getSpecimenText();
-      
-      ctx.save();
-      // Clip to cell to prevent overlap
-      ctx.beginPath();
-      ctx.rect(x + 5, y + labelHeight + 5, cellWidth - 10, cellHeight - labelHeight - 10);
-      ctx.clip();
-
-      ctx.font = `${activeFontSize}px "${f.fontFamily}"`;
-      (ctx as any).letterSpacing = `${activeLetterSpacing}px`;
-      ctx.fillStyle = '#000000';
-      ctx.textBaseline = 'middle';
-      
-      const isRtl = selectedLang.id === 'ar';
-      ctx.textAlign = isRtl ? 'right' : 'left';
-      const padding = 40;
-      const maxWidth = cellWidth - (padding * 2);
-      const xPos = isRtl ? x + cellWidth - padding : x + padding;
-
-      const lines = getWrappedLines(ctx, rawText, maxWidth, isSingleLine);
-      const totalLinesHeight = lines.length * activeFontSize * activeLineHeight;
-      const startY = y + (cellHeight + labelHeight - totalLinesHeight) / 2 + (activeFontSize * activeLineHeight) / 2;
-
-      lines.forEach((line, index) => {
-        ctx.fillText(line, xPos, startY + index * activeFontSize * activeLineHeight);
-      });
-      
-      ctx.restore();
-    }
-    ctx.restore();
-  };
+  // 單行字樣與自訂字樣不屬於語言預設，方向改由文字本身判斷
+  const usesPresetText = !isSingleLineSize(selectedSize) && selectedLang.id !== 'custom';
+
+  const getSpecimenSettings = (): SpecimenSettings => ({
+    size: selectedSize,
+    languageId: selectedLang.id,
+    text: getSpecimenText(),
+    direction: usesPresetText ? selectedLang.direction : undefined,
+    fontSize: activeFontSize,
+    lineHeight: activeLineHeight,
+    letterSpacing: activeLetterSpacing,
+    renderMode: effectiveRenderMode,
+    showCopyright,
+    copyright: copyrightStyle,
+    theme: getExportTheme(theme, exportFormat),
+    page: previewPage,
+    variation,
+    features,
+    autoFit,
+    metricGuides: burnMetricGuides,
+  });
+
+  // 分頁預覽的頁數；換字體或尺寸後頁碼可能超出範圍，顯示時夾回最後一頁
+  const previewPageCount = (() => {
+    const { width, height } = getActiveDimensions();
+    if (isDiffLayout) return getFontDiffPages(fontDiff, diffView, getSpecimenSettings(), width, height);
+    if (isPagedSpecimenKind(specimenKind) && currentFont) return getSpecimenPages(currentFont, getSpecimenSettings(), width, height);
+    return 1;
+  })();
+  const activePreviewPage = Math.min(previewPage, previewPageCount - 1);
+
+  // 點陣輸出的實際倍率與像素尺寸；超過上限時倍率低於所選
+  const rasterExport = (() => {
+    const { width, height } = getActiveDimensions();
+    const raster = isCollageLayout ? getCollageSize(selectedCollageIds.length, width, height, collageOptions) : { width, height };
+    const scale = clampExportScale(raster.width, raster.height, exportScale);
+    return { scale, ...getScaledSize(raster.width, raster.height, scale) };
+  })();
+  const isRasterScaleClamped = !isVectorFormat(exportFormat) && rasterExport.scale < exportScale;
 
   const drawCanvas = useCallback((targetFont?: LoadedFont) => {
     const canvas = canvasRef.current;
@@ -467,25 +448,34 @@ export default function App() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    if (isCollageMode && selectedCollageIds.length > 1) {
+    if (isDiffLayout) {
+      canvas.width = width;
+      canvas.height = height;
+
+      drawFontDiff(ctx, diffBefore, diffAfter, fontDiff, diffView, getSpecimenSettings(), width, height);
+    } else if (specimenKind === 'comparison') {
+      const selectedFonts = fonts.filter(f => selectedCollageIds.includes(f.id));
+      const comparisonFonts = selectedFonts.length > 0 ? selectedFonts : (currentFont ? [currentFont] : []);
+
+      canvas.width = width;
+      canvas.height = height;
+
+      drawWeightComparison(ctx, comparisonFonts, getSpecimenSettings(), width, height);
+    } else if (isCollageLayout) {
       const collageFonts = fonts.filter(f => selectedCollageIds.includes(f.id));
-      const count = collageFonts.length;
-      const cols = Math.ceil(Math.sqrt(count));
-      const rows = Math.ceil(count / cols);
       
       const cellWidth = width;
       const cellHeight = height;
       
       // For preview, we use the canvas dimensions provided by getActiveDimensions
       // but we need to adjust the canvas size to fit the collage
-      const totalWidth = cols * cellWidth;
-      const totalHeight = rows * cellHeight;
+      const { width: totalWidth, height: totalHeight } = getCollageSize(collageFonts.length, cellWidth, cellHeight, collageOptions);
       
       // Update canvas size for collage preview
       canvas.width = totalWidth;
       canvas.height = totalHeight;
       
-      drawCollage(ctx, collageFonts, totalWidth, totalHeight, cellWidth, cellHeight);
+      drawCollage(ctx, collageFonts, getSpecimenSettings(), totalWidth, totalHeight, cellWidth, cellHeight, 1, collageOptions);
     } else {
       const fontToDraw = targetFont || currentFont;
       if (!fontToDraw) return;
@@ -494,9 +484,18 @@ export default function App() {
       canvas.width = width;
       canvas.height = height;
       
-      drawSingleFont(ctx, fontToDraw, width, height);
+      drawSingleFont(ctx, fontToDraw, getSpecimenSettings(), width, height);
+
+      // 參考線畫在疊加的畫布上，1× 輸出沿用預覽畫布時不會帶入
+      const guideCanvas = guideCanvasRef.current;
+      const guideCtx = guideCanvas?.getContext('2d');
+      if (guideCanvas && guideCtx) {
+        guideCanvas.width = width;
+        guideCanvas.height = height;
+        drawMetricGuides(guideCtx, fontToDraw, getSpecimenSettings(), width, height);
+      }
     }
-  }, [fonts, currentFont, selectedSize, selectedLang, customText, temp700Text, singleLineText, fontSize, lineHeight, letterSpacing, customWidth, customHeight, isCollageMode, selectedCollageIds , showCopyright]);
+  }, [fonts, currentFont, selectedSize, selectedLang, customText, temp700Text, singleLineText, fontSize, lineHeight, letterSpacing, customWidth, customHeight, isCollageMode, selectedCollageIds , showCopyright, copyrightStyle, theme, previewPage, isDiffLayout, fontDiff, diffView, renderMode, exportFormat, collageOptions, variation, features, autoFit, showMetricGuides, burnMetricGuides]);
 
   useEffect(() => {
     drawCanvas();
@@ -509,118 +508,314 @@ export default function App() {
       ? collageFonts
       : (currentFont ? [currentFont] : []);
 
-  const processCount = isCollageMode && collageFonts.length > 1
+  const processCount = isCollageLayout
     ? collageFonts.length
     : fontsToProcess.length;
 
+  // 量測用畫布，不影響預覽
+  const measureContext = useMemo(() => createBrowserCanvas(1, 1).getContext('2d'), []);
+
+  // 各字體的輸出前檢查；依賴列出字體清單、尺寸與 getSpecimenSettings 讀取的每項排版設定（頁碼與參考線不影響檢查）
+  const validations = useMemo(() => {
+    if (!measureContext) return [];
+    const { width, height } = getActiveDimensions();
+    return validateSpecimens(measureContext, fontsToProcess, getSpecimenSettings(), width, height, {
+      inCollage: isCollageLayout,
+      comparisonCount: fontsToProcess.length,
+    });
+  }, [
+    measureContext, fonts, currentFont, selectedCollageIds, isCollageLayout, selectedSize, customWidth, customHeight,
+    selectedLang, customText, temp700Text, singleLineText, activeFontSize, activeLineHeight, activeLetterSpacing,
+    effectiveRenderMode, showCopyright, copyrightStyle, theme, exportFormat, variation, features, autoFit,
+  ]);
+
+  const clippedFontCount = validations.filter(v => getValidationSeverity(v) === 'error').length;
+  const warningFontCount = validations.filter(v => getValidationSeverity(v) === 'warning').length;
+
+  const canvasToBytes = (source: HTMLCanvasElement, mimeType: string, quality: number) =>
+    new Promise<Uint8Array>((resolve, reject) => {
+      source.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Canvas export failed'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, mimeType, quality);
+    });
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const exportInspection = (format: InspectionFormat) => {
+    if (!currentFont) return;
+    const data = serializeInspection(inspectFont(currentFont), format);
+    const baseName = currentFont.fileName.replace(/\.[^/.]+$/, '');
+    downloadBlob(new Blob([data], { type: format === 'json' ? 'application/json' : 'text/csv' }), `${baseName}-inspection.${format}`);
+  };
+
+  const getDiffBaseName = () =>
+    [diffBefore, diffAfter].map(f => f?.fileName.replace(/\.[^/.]+$/, '')).join('-vs-');
+
+  const exportDiffList = () => {
+    if (!fontDiff) return;
+    const json = JSON.stringify({ before: diffBefore?.fileName, after: diffAfter?.fileName, ...fontDiff }, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `diff-${getDiffBaseName()}.json`);
+  };
+
+  // 輸出前檢查：有行被裁切時停止輸出；超出文字範圍或缺字（以系統字體替代）時請使用者確認
+  const confirmValidation = (targetFonts: LoadedFont[]) => {
+    const targets = validations.filter(v => targetFonts.includes(v.font));
+    const summarize = (list: FontValidation[]) =>
+      list.map(v => `• ${v.font.fileName}：${describeValidation(v).join('；')}`).join('\n');
+
+    const clipped = targets.filter(v => getValidationSeverity(v) === 'error');
+    if (clipped.length > 0) {
+      window.alert(`以下字體的字樣會被裁切，已停止輸出。請縮小字級、開啟自動調整字級或加大尺寸：\n\n${summarize(clipped)}`);
+      return false;
+    }
+    const warnings = targets.filter(v => getValidationSeverity(v) === 'warning');
+    if (warnings.length > 0) {
+      return window.confirm(`以下字體的字樣需要注意：\n\n${summarize(warnings)}\n\n仍要繼續產出嗎？`);
+    }
+    return true;
+  };
+
+  // 軸值無法照設定繪製時（字形路徑與向量輸出只有預設實例，Canvas 只支援部分軸），輸出前請使用者確認
+  const confirmVariation = (targetFonts: LoadedFont[]) => {
+    const affected = targetFonts
+      .map(f => ({ f, unrendered: getUnrenderedAxes(f.font, variation, effectiveRenderMode) }))
+      .filter(({ unrendered }) => unrendered.length > 0);
+    if (affected.length === 0) return true;
+    const list = affected
+      .map(({ f }) => `• ${f.fileName}：以 ${formatVariation(getRenderedVariation(f.font, variation, effectiveRenderMode) ?? {})} 繪製`)
+      .join('\n');
+    return window.confirm(`以下字體的軸設定無法以目前的繪製方式輸出，輸出與預覽同樣使用下列軸值：\n\n${list}\n\n仍要繼續產出嗎？`);
+  };
+
+  // 單檔直接下載，多檔打包成單一 ZIP 並附上 manifest，避免瀏覽器阻擋多次下載
+  const saveExportFiles = (files: ZipEntry[], manifest: ManifestEntry[], mimeType: string, zipName: string) => {
+    if (files.length === 1) {
+      downloadBlob(new Blob([files[0].data], { type: mimeType }), files[0].name);
+    } else if (files.length > 1) {
+      // files 與 manifest 逐筆對應，manifest 記錄 createZip 去除重名後的檔名
+      const zip = createZip(files, names => ({
+        name: 'manifest.json',
+        data: new TextEncoder().encode(createManifest(manifest.map((entry, i) => ({ ...entry, file: names[i] })))),
+      }));
+      downloadBlob(new Blob([zip], { type: 'application/zip' }), zipName);
+    }
+  };
+
+  const getManifestEntry = (file: string, f: LoadedFont, settings: SpecimenSettings, width: number, height: number, scale: number): ManifestEntry => ({
+    file,
+    font: f.fileName,
+    width,
+    height,
+    format: exportFormat,
+    language: settings.languageId,
+    text: settings.text,
+    fontSize: settings.fontSize,
+    lineHeight: settings.lineHeight,
+    letterSpacing: settings.letterSpacing,
+    renderMode: settings.renderMode,
+    scale: scale === 1 ? undefined : scale,
+    showCopyright: settings.showCopyright,
+    copyrightProfile: settings.showCopyright ? settings.copyright?.profile.id : undefined,
+    theme: settings.theme === DEFAULT_THEME ? undefined : settings.theme,
+    variation: getRenderedVariation(f.font, settings.variation, settings.renderMode),
+    features: hasCustomFeatures(settings.features) ? settings.features : undefined,
+    autoFit: specimenKind === 'text' ? settings.autoFit : undefined,
+    metricGuides: specimenKind === 'text' && settings.metricGuides ? true : undefined,
+  });
+
+  // 無效的 DPI 捨棄草稿，欄位回到目前的倍率
+  const commitDpiDraft = () => {
+    if (dpiDraft === null) return;
+    const scale = getScaleForDpi(Number(dpiDraft));
+    if (dpiDraft.trim() !== '' && isExportScale(scale)) setExportScale(scale);
+    setDpiDraft(null);
+  };
+
+  // 點陣輸出超過像素上限時降低倍率並請使用者確認；取消時回傳 null
+  const confirmExportScale = (width: number, height: number) => {
+    if (isVectorFormat(exportFormat)) return exportScale;
+    const scale = clampExportScale(width, height, exportScale);
+    if (scale === exportScale) return scale;
+    const size = getScaledSize(width, height, scale);
+    const formatScale = (value: number) => `${Number(value.toFixed(2))}×`;
+    const message = `以 ${formatScale(exportScale)} 輸出會超過單邊 ${MAX_EXPORT_DIM}px 的上限，將改以 ${formatScale(scale)} 輸出 ${size.width} x ${size.height}px。\n\n仍要輸出嗎？`;
+    return window.confirm(message) ? scale : null;
+  };
+
   const downloadImage = async () => {
     const canvas = canvasRef.current;
     if (!canvas || fonts.length === 0) return;
+    // 比較報告只繪製字形，不需要字樣檢查
+    if (!isDiffLayout && !confirmValidation(fontsToProcess)) return;
+    if (!isDiffLayout && !confirmVariation(fontsToProcess)) return;
 
-    setIsGenerating(true);
-    
     const { width, height } = getActiveDimensions();
+    const rasterSize = isCollageLayout ? getCollageSize(collageFonts.length, width, height, collageOptions) : { width, height };
+    const scale = confirmExportScale(rasterSize.width, rasterSize.height);
+    if (scale === null) return;
 
-    // Helper to trigger download
-    const triggerDownload = (dataUrl: string, fileName: string) => {
-      if (exportFormat === 'pdf') {
-        const pdf = new jsPDF({
-          orientation: width > height ? 'landscape' : 'portrait',
-          unit: 'px',
-          format: [width, height]
-        });
-        pdf.addImage(dataUrl, 'PNG', 0, 0, width, height);
-        pdf.save(fileName.replace('.png', '.pdf').replace('.jpg', '.pdf'));
-      } else {
-        const link = document.createElement('a');
-        const ext = exportFormat === 'jpg' ? 'jpg' : 'png';
-        link.download = fileName.replace('.png', `.${ext}`);
-        link.href = dataUrl;
-        link.click();
-      }
-    };
+    setIsGenerating(true);
+
+    const mimeType = getExportMimeType(exportFormat);
+    const quality = exportFormat === 'jpg' ? 0.9 : 1.0;
 
     try {
       const collageFonts = fonts.filter(f => selectedCollageIds.includes(f.id));
       
-      if (isCollageMode && collageFonts.length > 1) {
+      if (isDiffLayout) {
+        // 版本比較報告：依頁數輸出多張圖；PDF 合併為單一多頁文件
+        const settings = getSpecimenSettings();
+        const pages = Array.from({ length: getFontDiffPages(fontDiff, diffView, settings, width, height) }, (_, page) => ({ ...settings, page }));
+        let data: Uint8Array[];
+        if (isVectorFormat(exportFormat)) {
+          const drawings = pages.map(pageSettings => {
+            const { context, drawing } = createVectorContext(width, height);
+            drawFontDiff(context, diffBefore, diffAfter, fontDiff, diffView, pageSettings, width, height);
+            return drawing;
+          });
+          data = encodeVectorPages(drawings, exportFormat, createBrowserCanvas, scale);
+        } else {
+          data = [];
+          for (const pageSettings of pages) {
+            const { canvas: pageCanvas, ctx } = createScaledCanvas(width, height, scale);
+            if (!ctx) continue;
+            drawFontDiff(ctx, diffBefore, diffAfter, fontDiff, diffView, pageSettings, width, height);
+            data.push(await canvasToBytes(pageCanvas, mimeType, quality));
+          }
+        }
+
+        const baseName = `diff-${getDiffBaseName()}-${width}x${height}`;
+        const files = data.map((bytes, page) => ({
+          name: `${baseName}${data.length > 1 ? getPageSuffix(page, data.length) : ''}${getScaleSuffix(scale)}.${exportFormat}`,
+          data: bytes,
+        }));
+        const manifest = files.map((file, page): ManifestEntry => ({
+          ...getManifestEntry(file.name, diffAfter, settings, width, height, scale),
+          compareTo: diffBefore.fileName,
+          page: files.length > 1 ? page + 1 : undefined,
+        }));
+        saveExportFiles(files, manifest, mimeType, `${baseName}-${Date.now()}.zip`);
+      } else if (specimenKind === 'comparison') {
+        // 字重比較：所有選取字體合併為單一檔案
+        const settings = getSpecimenSettings();
+        const fileName = `comparison-${width}x${height}-${Date.now()}${getScaleSuffix(scale)}.${exportFormat}`;
+
+        if (isVectorFormat(exportFormat)) {
+          const { context, drawing } = createVectorContext(width, height);
+          drawWeightComparison(context, fontsToProcess, settings, width, height);
+          downloadBlob(new Blob([encodeVector(drawing, exportFormat, createBrowserCanvas, scale)], { type: mimeType }), fileName);
+        } else {
+          const { canvas: comparisonCanvas, ctx } = createScaledCanvas(width, height, scale);
+          if (!ctx) return;
+          drawWeightComparison(ctx, fontsToProcess, settings, width, height);
+          downloadBlob(new Blob([await canvasToBytes(comparisonCanvas, mimeType, quality)], { type: mimeType }), fileName);
+        }
+      } else if (isPagedSpecimenKind(specimenKind)) {
+        // 字元表與字距校樣：每款字體依頁數輸出多張圖；PDF 合併為單一多頁文件
+        const settings = getSpecimenSettings();
+        const files: ZipEntry[] = [];
+        const manifest: ManifestEntry[] = [];
+
+        for (const f of fontsToProcess) {
+          const pages = Array.from({ length: getSpecimenPages(f, settings, width, height) }, (_, page) => ({ ...settings, page }));
+          let data: Uint8Array[];
+          if (isVectorFormat(exportFormat)) {
+            const drawings = pages.map(pageSettings => {
+              const { context, drawing } = createVectorContext(width, height);
+              drawSingleFont(context, f, pageSettings, width, height);
+              return drawing;
+            });
+            data = encodeVectorPages(drawings, exportFormat, createBrowserCanvas, scale);
+          } else {
+            data = [];
+            for (const pageSettings of pages) {
+              const { canvas: pageCanvas, ctx } = createScaledCanvas(width, height, scale);
+              if (!ctx) continue;
+              drawSingleFont(ctx, f, pageSettings, width, height);
+              data.push(await canvasToBytes(pageCanvas, mimeType, quality));
+            }
+          }
+
+          data.forEach((bytes, page) => {
+            const suffix = data.length > 1 ? getPageSuffix(page, data.length) : '';
+            const fileName = getExportFileName(f.fileName, width, height, `${specimenKind}${suffix}`, exportFormat, undefined, scale);
+            files.push({ name: fileName, data: bytes });
+            manifest.push({ ...getManifestEntry(fileName, f, settings, width, height, scale), page: data.length > 1 ? page + 1 : undefined });
+          });
+        }
+
+        saveExportFiles(files, manifest, mimeType, `${specimenKind}-${width}x${height}-${Date.now()}.zip`);
+      } else if (isCollageLayout) {
         // Collage logic
-        const count = collageFonts.length;
-        const cols = Math.ceil(Math.sqrt(count));
-        const rows = Math.ceil(count / cols);
-        
         // Use active dimensions as cell size
         const cellWidth = width;
         const cellHeight = height;
 
-        // Calculate total collage size
-        let totalWidth = cols * cellWidth;
-        let totalHeight = rows * cellHeight;
-
-        // Cap at 5000px
-        const MAX_DIM = 5000;
-        let collageScale = 1;
-        if (totalWidth > MAX_DIM || totalHeight > MAX_DIM) {
-          collageScale = Math.min(MAX_DIM / totalWidth, MAX_DIM / totalHeight);
-          totalWidth *= collageScale;
-          totalHeight *= collageScale;
+        const fileName = `collage-${Math.round(rasterSize.width)}x${Math.round(rasterSize.height)}-${Date.now()}${getScaleSuffix(scale)}.${exportFormat}`;
+
+        if (isVectorFormat(exportFormat)) {
+          const { context, drawing } = createVectorContext(Math.round(rasterSize.width), Math.round(rasterSize.height));
+          drawCollage(context, collageFonts, getSpecimenSettings(), rasterSize.width, rasterSize.height, cellWidth, cellHeight, 1, collageOptions);
+          downloadBlob(new Blob([encodeVector(drawing, exportFormat, createBrowserCanvas, scale)], { type: mimeType }), fileName);
+          return;
         }
 
+        const { totalWidth, totalHeight, scale: collageScale } = getCollageExportSize(collageFonts.length, cellWidth, cellHeight, collageOptions, scale);
         const collageCanvas = document.createElement('canvas');
         collageCanvas.width = totalWidth;
         collageCanvas.height = totalHeight;
         const cCtx = collageCanvas.getContext('2d');
         if (!cCtx) return;
 
-        drawCollage(cCtx, collageFonts, totalWidth, totalHeight, cellWidth, cellHeight, collageScale);
-
-        const ext = exportFormat === 'jpg' ? 'jpg' : 'png';
-        const fileName = `collage-${Math.round(totalWidth)}x${Math.round(totalHeight)}-${Date.now()}.${ext}`;
-        const mimeType = exportFormat === 'jpg' ? 'image/jpeg' : 'image/png';
-        const quality = exportFormat === 'jpg' ? 0.9 : 1.0;
-        
-        if (exportFormat === 'pdf') {
-          const pdf = new jsPDF({
-            orientation: totalWidth > totalHeight ? 'landscape' : 'portrait',
-            unit: 'px',
-            format: [totalWidth, totalHeight]
-          });
-          pdf.addImage(collageCanvas.toDataURL('image/png'), 'PNG', 0, 0, totalWidth, totalHeight);
-          pdf.save(fileName.replace('.png', '.pdf').replace('.jpg', '.pdf'));
-        } else {
-          triggerDownload(collageCanvas.toDataURL(mimeType, quality), fileName);
-        }
+        drawCollage(cCtx, collageFonts, getSpecimenSettings(), totalWidth, totalHeight, cellWidth, cellHeight, collageScale, collageOptions);
+        downloadBlob(new Blob([await canvasToBytes(collageCanvas, mimeType, quality)], { type: mimeType }), fileName);
       } else {
         // Loop through selected fonts and generate images
         const fontsToProcess = collageFonts.length > 0 ? collageFonts : (currentFont ? [currentFont] : []);
-        
-        for (const f of fontsToProcess) {
-          drawCanvas(f);
-          await new Promise(resolve => setTimeout(resolve, 100));
-
-          const fontName = f.fileName.split('.')[0];
+        const settings = getSpecimenSettings();
 
-          if (exportFormat === 'pdf') {
-            const pdf = new jsPDF({
-              orientation: width > height ? 'landscape' : 'portrait',
-              unit: 'px',
-              format: [width, height]
-            });
+        const files: ZipEntry[] = [];
+        const manifest: ManifestEntry[] = [];
 
-            pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, width, height);
-            pdf.save(`${fontName}-${width}x${height}.pdf`);
+        for (const f of fontsToProcess) {
+          const fileName = getExportFileName(f.fileName, width, height, selectedLang.id, exportFormat, undefined, scale);
+          let data: Uint8Array;
+          if (isVectorFormat(exportFormat)) {
+            // PDF / SVG 以相同排版邏輯記錄字形輪廓，輸出為可縮放的向量檔
+            const { context, drawing } = createVectorContext(width, height);
+            drawSingleFont(context, f, settings, width, height);
+            data = encodeVector(drawing, exportFormat, createBrowserCanvas, scale);
+          } else if (scale === 1) {
+            drawCanvas(f);
+            data = await canvasToBytes(canvas, mimeType, quality);
           } else {
-            const ext = exportFormat === 'jpg' ? 'jpg' : 'png';
-            const mimeType = exportFormat === 'jpg' ? 'image/jpeg' : 'image/png';
-            const quality = exportFormat === 'jpg' ? 0.9 : 1.0;
-
-            const link = document.createElement('a');
-            link.download = `${fontName}-${width}x${height}.${ext}`;
-            link.href = canvas.toDataURL(mimeType, quality);
-            link.click();
+            const { canvas: scaledCanvas, ctx } = createScaledCanvas(width, height, scale);
+            if (!ctx) continue;
+            drawSingleFont(ctx, f, settings, width, height);
+            data = await canvasToBytes(scaledCanvas, mimeType, quality);
           }
+
+          files.push({ name: fileName, data });
+          const fitted = measureContext ? resolveAutoFit(measureContext, f, settings, width, height) : settings;
+          manifest.push(getManifestEntry(fileName, f, fitted, width, height, scale));
         }
+
+        saveExportFiles(files, manifest, mimeType, `specimens-${width}x${height}-${selectedLang.id}-${Date.now()}.zip`);
       }
+    } catch (error) {
+      console.error('Failed to export specimens', error);
+      window.alert(`輸出失敗：${error instanceof Error ? error.message : String(error)}`);
     } finally {
       // Restore preview of selected font
       drawCanvas();
@@ -628,6 +823,280 @@ export default function App() {
     }
   };
 
+  const variableFontsToProcess = fontsToProcess.filter(f => isVariableFont(f.font));
+  // 軸值只能經由瀏覽器文字套用，字形路徑與向量格式僅能繪製預設實例；
+  // 含 opsz、GRAD 等軸或非關鍵字 wdth 的實例會畫成與其他實例相同的圖，因此略過
+  const instanceTargets = variableFontsToProcess.flatMap(f =>
+    getNamedInstances(f.font).map(instance => ({ f, instance, unrendered: getUnrenderedAxes(f.font, instance.coordinates, 'canvas') }))
+  );
+  const renderableInstances = instanceTargets.filter(target => target.unrendered.length === 0);
+  const skippedInstances = instanceTargets.filter(target => target.unrendered.length > 0);
+  const canExportInstances = renderableInstances.length > 0 && effectiveRenderMode === 'canvas';
+
+  // 將選取的可變字體依 fvar 具名實例逐一輸出，每個實例一張圖
+  const downloadInstances = async () => {
+    if (!canExportInstances) return;
+    if (!confirmValidation(variableFontsToProcess)) return;
+    if (skippedInstances.length > 0) {
+      const list = skippedInstances
+        .map(({ f, instance, unrendered }) => `• ${f.fileName} ${instance.name}（${unrendered.join('、')}）`)
+        .join('\n');
+      const message = `以下實例的軸值無法以瀏覽器文字繪製，輸出會與其他實例相同，將略過：\n\n${list}\n\n仍要輸出其餘 ${renderableInstances.length} 個實例嗎？`;
+      if (!window.confirm(message)) return;
+    }
+
+    const { width, height } = getActiveDimensions();
+    const scale = confirmExportScale(width, height);
+    if (scale === null) return;
+
+    setIsGenerating(true);
+
+    const mimeType = getExportMimeType(exportFormat);
+    const quality = exportFormat === 'jpg' ? 0.9 : 1.0;
+    const { canvas: instanceCanvas, ctx } = createScaledCanvas(width, height, scale);
+
+    try {
+      if (!ctx) return;
+      const files: ZipEntry[] = [];
+      const manifest: ManifestEntry[] = [];
+
+      for (const { f, instance } of renderableInstances) {
+        const settings = { ...getSpecimenSettings(), variation: instance.coordinates };
+        drawSingleFont(ctx, f, settings, width, height);
+
+        const fileName = getExportFileName(f.fileName, width, height, selectedLang.id, exportFormat, instance.name, scale);
+        files.push({ name: fileName, data: await canvasToBytes(instanceCanvas, mimeType, quality) });
+        const fitted = resolveAutoFit(ctx, f, settings, width, height);
+        manifest.push({ ...getManifestEntry(fileName, f, fitted, width, height, scale), instance: instance.name });
+      }
+
+      saveExportFiles(files, manifest, mimeType, `instances-${width}x${height}-${selectedLang.id}-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Failed to export named instances', error);
+      window.alert(`輸出失敗：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const featureFontsToProcess = fontsToProcess.filter(f => getFontFeatures(f.font).some(feature => feature.supported));
+
+  // 每款字體一張 OpenType 功能對照圖，逐列比較各功能關閉與開啟的字形
+  const downloadFeaturesSheets = async () => {
+    if (featureFontsToProcess.length === 0) return;
+
+    const { width } = getActiveDimensions();
+    const settings = getSpecimenSettings();
+    const sheets = featureFontsToProcess.map(f => {
+      const sheetFeatures = getFontFeatures(f.font).filter(feature => feature.supported);
+      return { f, sheetFeatures, height: getFeaturesSheetHeight(sheetFeatures.length, settings) };
+    });
+    // 各字體的對照圖高度不同，以最高的一張決定倍率
+    const scale = confirmExportScale(width, Math.max(...sheets.map(sheet => sheet.height)));
+    if (scale === null) return;
+
+    setIsGenerating(true);
+    const mimeType = getExportMimeType(exportFormat);
+    const quality = exportFormat === 'jpg' ? 0.9 : 1.0;
+
+    try {
+      const files: ZipEntry[] = [];
+      const manifest: ManifestEntry[] = [];
+
+      for (const { f, sheetFeatures, height } of sheets) {
+        const fileName = getExportFileName(f.fileName, width, height, 'features', exportFormat, undefined, scale);
+
+        let data: Uint8Array;
+        if (isVectorFormat(exportFormat)) {
+          const { context, drawing } = createVectorContext(width, height);
+          drawFeaturesSheet(context, f, sheetFeatures, settings, width, height);
+          data = encodeVector(drawing, exportFormat, createBrowserCanvas, scale);
+        } else {
+          const { canvas: sheetCanvas, ctx } = createScaledCanvas(width, height, scale);
+          if (!ctx) continue;
+          drawFeaturesSheet(ctx, f, sheetFeatures, settings, width, height);
+          data = await canvasToBytes(sheetCanvas, mimeType, quality);
+        }
+
+        files.push({ name: fileName, data });
+        manifest.push({ ...getManifestEntry(fileName, f, settings, width, height, scale), renderMode: 'glyph', autoFit: undefined });
+      }
+
+      saveExportFiles(files, manifest, mimeType, `features-${width}-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Failed to export features sheets', error);
+      window.alert(`輸出失敗：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // 匯入單一預設或預設陣列；id 不可與內建預設重複，與既有自訂預設相同時覆寫
+  const importLanguagePresets = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const presets = (Array.isArray(parsed) ? parsed : [parsed]).map(parseLanguagePreset);
+      const reserved = presets.find(preset => LANGUAGE_PRESETS.some(builtin => builtin.id === preset.id));
+      if (reserved) throw new Error(`"${reserved.id}" is a built-in preset id`);
+      for (const preset of presets) await saveCustomPreset(preset);
+      await refreshCustomPresets();
+    } catch (error) {
+      console.error('Failed to import language presets', error);
+      window.alert(`無法匯入語言預設：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportLanguagePresets = () => {
+    const json = JSON.stringify(customPresets.map(serializeLanguagePreset), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'language-presets.json');
+  };
+
+  const removeLanguagePreset = async (id: string) => {
+    try {
+      await deleteCustomPreset(id);
+      if (selectedLang.id === id) selectLanguage(LANGUAGE_PRESETS[0]);
+      await refreshCustomPresets();
+    } catch (error) {
+      console.error('Failed to delete language preset', error);
+    }
+  };
+
+  // 將目前的自訂字樣與字級、行高存為語言預設，方向依文字判斷
+  const saveCustomTextAsPreset = async () => {
+    const name = window.prompt('語言預設名稱')?.trim();
+    if (!name) return;
+    const preset: LanguagePreset = {
+      id: `user-${Date.now().toString(36)}`,
+      name,
+      script: 'Zyyy',
+      direction: getTextDirection(customText),
+      recommendedSizes: { ...CUSTOM_LANGUAGE_PRESET.recommendedSizes, multiLine: activeFontSize, lineHeight: activeLineHeight },
+      content: customText,
+    };
+    try {
+      await saveCustomPreset(preset);
+      await refreshCustomPresets();
+      setSelectedLang(preset);
+    } catch (error) {
+      console.error('Failed to save language preset', error);
+    }
+  };
+
+  // 儲存後若正在使用該範本，改用新的設定重新繪製
+  const saveTemplate = async (template: SizeTemplate) => {
+    try {
+      await saveSizeTemplate(template);
+      await refreshSizeTemplates();
+      setEditingTemplate(null);
+      selectSize(template);
+    } catch (error) {
+      console.error('Failed to save size template', error);
+    }
+  };
+
+  const duplicateTemplate = (template: SizeTemplate) =>
+    saveTemplate(createSizeTemplate(template, `${template.label} (副本)`));
+
+  const removeTemplate = async (id: string) => {
+    try {
+      await deleteSizeTemplate(id);
+      if (getSizeKey(selectedSize) === id) selectSize(SIZES[0]);
+      if (editingTemplate?.id === id) setEditingTemplate(null);
+      await refreshSizeTemplates();
+    } catch (error) {
+      console.error('Failed to delete size template', error);
+    }
+  };
+
+  // 匯入單一範本或範本陣列；相同 id 的範本會被覆寫
+  const importTemplates = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const templates = (Array.isArray(parsed) ? parsed : [parsed]).map(parseSizeTemplate);
+      for (const template of templates) await saveSizeTemplate(template);
+      await refreshSizeTemplates();
+    } catch (error) {
+      console.error('Failed to import size templates', error);
+      window.alert(`無法匯入尺寸範本：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportTemplates = () => {
+    const json = JSON.stringify(sizeTemplates, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'size-templates.json');
+  };
+
+  const saveProfile = async (profile: CopyrightProfile) => {
+    try {
+      await saveCopyrightProfile(profile);
+      await refreshCopyrightProfiles();
+      setEditingProfile(null);
+      setSelectedCopyrightId(profile.id);
+    } catch (error) {
+      console.error('Failed to save copyright profile', error);
+    }
+  };
+
+  const duplicateProfile = (profile: CopyrightProfile) =>
+    saveProfile({ ...profile, id: createProfileId(), name: `${profile.name} (副本)` });
+
+  const removeProfile = async (id: string) => {
+    try {
+      await deleteCopyrightProfile(id);
+      if (selectedCopyrightId === id) setSelectedCopyrightId(DEFAULT_COPYRIGHT_PROFILE.id);
+      if (editingProfile?.id === id) setEditingProfile(null);
+      await refreshCopyrightProfiles();
+    } catch (error) {
+      console.error('Failed to delete copyright profile', error);
+    }
+  };
+
+  // 匯入單一設定檔或設定檔陣列；id 不可與內建設定檔重複，相同 id 的設定檔會被覆寫
+  const importProfiles = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const profiles = (Array.isArray(parsed) ? parsed : [parsed]).map(parseCopyrightProfile);
+      if (profiles.some(profile => profile.id === DEFAULT_COPYRIGHT_PROFILE.id)) {
+        throw new Error(`"${DEFAULT_COPYRIGHT_PROFILE.id}" is the built-in profile id`);
+      }
+      for (const profile of profiles) await saveCopyrightProfile(profile);
+      await refreshCopyrightProfiles();
+    } catch (error) {
+      console.error('Failed to import copyright profiles', error);
+      window.alert(`無法匯入著作資訊設定檔：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportProfiles = () => {
+    const json = JSON.stringify(copyrightProfiles, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'copyright-profiles.json');
+  };
+
+  // 將所有選取字體 × 語言預設輸出為含封面、目錄與字體資訊的多頁 PDF
+  const downloadSpecimenBook = async () => {
+    if (fontsToProcess.length === 0) return;
+    setIsGenerating(true);
+    try {
+      const pdf = await createSpecimenBook(fontsToProcess, {
+        title: 'HyFont字樣圖片快速產出工具',
+        presets: languagePresets.filter(l => l.content),
+        fontSize: activeFontSize,
+        lineHeight: activeLineHeight,
+        letterSpacing: activeLetterSpacing,
+        renderMode: effectiveRenderMode,
+        showCopyright,
+        copyright: copyrightStyle,
+        createCanvas: createBrowserCanvas,
+      });
+      pdf.save(`specimen-book-${new Date().toISOString().slice(0, 10)}.pdf`);
+    } catch (error) {
+      console.error('Failed to create specimen book', error);
+      window.alert(`無法產出字樣圖冊：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#F5F5F0] text-[#141414] font-sans p-6 md:p-12">
       <div className="max-w-6xl mx-auto space-y-12">
@@ -691,6 +1160,57 @@ export default function App() {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">{f.fileName}</p>
+                        {(() => {
+                          const report = coverageReports.get(f.id) ?? [];
+                          const unsupported = report.filter(isPresetUnsupported);
+                          const gaps = report.filter(c => c.missing.length > 0 && !isPresetUnsupported(c));
+                          const unsupportedNote = unsupported.length > 0 && (
+                            <p className="text-[10px] opacity-40 truncate" title={unsupported.map(c => languagePresets.find(l => l.id === c.presetId)?.name).join('、')}>
+                              未涵蓋 {unsupported.length} 種語言預設
+                            </p>
+                          );
+                          if (gaps.length === 0) {
+                            return (
+                              <>
+                                <p className="flex items-center gap-1 text-[10px] text-emerald-700 mt-1">
+                                  <CheckCircle2 size={10} />
+                                  <span>{unsupported.length > 0 ? '已涵蓋的語言預設字形完整' : '全部語言預設字形完整'}</span>
+                                </p>
+                                {unsupportedNote}
+                              </>
+                            );
+                          }
+                          const isExpanded = expandedCoverageId === f.id;
+                          return (
+                            <div className="mt-1 space-y-1">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setExpandedCoverageId(isExpanded ? null : f.id);
+                                }}
+                                className="flex flex-wrap items-center gap-1 text-left"
+                              >
+                                <AlertCircle size={10} className="text-amber-600" />
+                                {gaps.map(gap => (
+                                  <span key={gap.presetId} className="text-[10px] px-1.5 py-0.5 rounded bg-amber-50 border border-amber-200 text-amber-800">
+                                    {languagePresets.find(l => l.id === gap.presetId)?.name} 缺 {gap.missing.length}
+                                  </span>
+                                ))}
+                              </button>
+                              {isExpanded && (
+                                <div className="space-y-1 text-[10px] font-mono text-amber-900/80 break-all">
+                                  {gaps.map(gap => (
+                                    <p key={gap.presetId}>
+                                      <span className="font-sans font-medium">{languagePresets.find(l => l.id === gap.presetId)?.name}：</span>
+                                      {gap.missing.map(cp => `${String.fromCodePoint(cp)} ${formatCodePoint(cp)}`).join('  ')}
+                                    </p>
+                                  ))}
+                                </div>
+                              )}
+                              {unsupportedNote}
+                            </div>
+                          );
+                        })()}
                       </div>
                       <button 
                         onClick={(e) => {
@@ -706,44 +1226,153 @@ export default function App() {
                 </div>
               </section>
 
+              {/* Font Inspector */}
+              {currentFont && <FontInspector font={currentFont} onExport={exportInspection} />}
+
+              {/* Font Diff */}
+              {fonts.length > 1 && (
+                <FontDiffPanel
+                  fonts={fonts}
+                  isEnabled={isDiffMode}
+                  onToggle={(isEnabled) => {
+                    setIsDiffMode(isEnabled);
+                    // 首次啟用時預選前兩款字體，以載入順序視為舊版與新版
+                    if (isEnabled && !diffBeforeId && !diffAfterId) {
+                      setDiffBeforeId(fonts[0].id);
+                      setDiffAfterId(fonts[1].id);
+                    }
+                  }}
+                  beforeId={diffBeforeId}
+                  afterId={diffAfterId}
+                  onSelect={(beforeId, afterId) => {
+                    setDiffBeforeId(beforeId);
+                    setDiffAfterId(afterId);
+                  }}
+                  view={diffView}
+                  onViewChange={setDiffView}
+                  diff={fontDiff}
+                  onExportList={exportDiffList}
+                />
+              )}
+
+              {/* Font Library */}
+              {libraryEntries.length > 0 && (
+                <FontLibraryPanel
+                  entries={libraryEntries}
+                  loadedIds={fonts.map(f => f.id)}
+                  onLoad={loadFromLibrary}
+                  onDelete={deleteFromLibrary}
+                  onTagsChange={setLibraryTags}
+                />
+              )}
+
               {/* Size Selection */}
               <section className="space-y-4">
-                <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
-                  <ImageIcon size={14} />
-                  <span>圖片尺寸規範</span>
-                </div>
-                <div className="grid grid-cols-1 gap-2">
-                  {SIZES.map((size) => (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+                    <ImageIcon size={14} />
+                    <span>圖片尺寸規範</span>
+                  </div>
+                  <div className="flex gap-1">
                     <button
-                      key={size.label}
                       onClick={() => {
-                        setSelectedSize(size);
-                        if (size.width === 1055 && !size.isCustom) {
-                          setFontSize(32);
-                        } else {
-                          setFontSize(28);
-                        }
+                        const { width, height } = getActiveDimensions();
+                        setEditingTemplate(createSizeTemplate({ ...selectedSize, width, height }, `${width} x ${height} px`));
                       }}
-                      className={`flex items-center justify-between p-4 rounded-2xl border transition-all ${
-                        selectedSize.label === size.label
-                          ? 'bg-[#141414] text-white border-[#141414]'
-                          : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
-                      }`}
+                      className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
                     >
-                      <div className="flex flex-col items-start">
-                        <span className="font-medium">{size.label}</span>
-                        {(size as any).description && (
-                          <span className={`text-sm font-medium opacity-60 ${selectedSize.label === size.label ? 'text-white/80' : 'text-[#141414]/60'}`}>
-                            {(size as any).description}
-                          </span>
+                      <Plus size={10} />
+                      新增範本
+                    </button>
+                    <button
+                      onClick={() => templateInputRef.current?.click()}
+                      className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+                    >
+                      <FileUp size={10} />
+                      匯入
+                    </button>
+                    <button
+                      onClick={exportTemplates}
+                      disabled={sizeTemplates.length === 0}
+                      className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors disabled:opacity-40"
+                    >
+                      <FileDown size={10} />
+                      匯出 ({sizeTemplates.length})
+                    </button>
+                    <input
+                      type="file"
+                      ref={templateInputRef}
+                      accept=".json,application/json"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importTemplates(file);
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 gap-2">
+                  {[...SIZES, ...sizeTemplates].map((size) => {
+                    const isSelected = getSizeKey(selectedSize) === getSizeKey(size);
+                    return (
+                      <div key={getSizeKey(size)} className="relative group">
+                        <button
+                          onClick={() => selectSize(size)}
+                          className={`w-full flex items-center justify-between p-4 rounded-2xl border transition-all text-left ${
+                            isSelected
+                              ? 'bg-[#141414] text-white border-[#141414]'
+                              : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
+                          }`}
+                        >
+                          <div className="flex flex-col items-start">
+                            <span className="font-medium">{size.label}</span>
+                            {size.description && (
+                              <span className={`text-sm font-medium opacity-60 ${isSelected ? 'text-white/80' : 'text-[#141414]/60'}`}>
+                                {size.description}
+                              </span>
+                            )}
+                            {isSizeTemplate(size) && (
+                              <span className="text-[10px] font-mono opacity-50">{size.width} x {size.height} · 範本</span>
+                            )}
+                          </div>
+                          {isSelected && <ChevronRight size={16} />}
+                        </button>
+                        {isSizeTemplate(size) && (
+                          <div className="absolute top-2 right-10 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            {[
+                              { icon: Pencil, title: '編輯', onClick: () => setEditingTemplate(size) },
+                              { icon: Copy, title: '複製', onClick: () => duplicateTemplate(size) },
+                              { icon: Trash2, title: '刪除', onClick: () => removeTemplate(size.id) },
+                            ].map(({ icon: Icon, title, onClick }) => (
+                              <button
+                                key={title}
+                                title={title}
+                                onClick={onClick}
+                                className="p-1 rounded-md bg-white text-[#141414] border border-[#141414]/10 hover:bg-[#F5F5F0]"
+                              >
+                                <Icon size={12} />
+                              </button>
+                            ))}
+                          </div>
                         )}
                       </div>
-                      {selectedSize.label === size.label && <ChevronRight size={16} />}
-                    </button>
-                  ))}
+                    );
+                  })}
                 </div>
               </section>
 
+              {/* 以範本 id 為 key，切換編輯對象時重設草稿 */}
+              {editingTemplate && (
+                <React.Fragment key={editingTemplate.id}>
+                  <SizeTemplateEditor
+                    template={editingTemplate}
+                    onSave={saveTemplate}
+                    onCancel={() => setEditingTemplate(null)}
+                  />
+                </React.Fragment>
+              )}
+
               {/* Custom Size Inputs */}
               {selectedSize.isCustom && (
                 <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-6 animate-in fade-in slide-in-from-top-2">
@@ -789,28 +1418,19 @@ export default function App() {
               )}
 
               {/* Input Section */}
-              {selectedSize.width === 700 && !selectedSize.isCustom ? (
+              {isPresetSpecimenSize(selectedSize) ? (
                 /* Editable Specimen for 700x166 (resets on lang change) */
                 <section className="space-y-4">
-                  <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
-                    <Languages size={14} />
-                    <span>語言預設 (700x166 規範)</span>
-                  </div>
-                  <div className="grid grid-cols-2 gap-2">
-                    {LANGUAGE_PRESETS.filter(l => l.id !== 'custom').map((lang) => (
-                      <button
-                        key={lang.id}
-                        onClick={() => setSelectedLang(lang)}
-                        className={`p-3 text-sm rounded-xl border transition-all ${
-                          selectedLang.id === lang.id
-                            ? 'bg-[#141414] text-white border-[#141414]'
-                            : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
-                        }`}
-                      >
-                        {lang.name}
-                      </button>
-                    ))}
-                  </div>
+                  <LanguagePresetPicker
+                    title="語言預設 (700x166 規範)"
+                    presets={languagePresets.filter(l => l.id !== 'custom')}
+                    customIds={customPresets.map(l => l.id)}
+                    selectedId={selectedLang.id}
+                    onSelect={selectLanguage}
+                    onImport={importLanguagePresets}
+                    onExport={exportLanguagePresets}
+                    onDelete={removeLanguagePreset}
+                  />
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
                       <RefreshCw size={14} />
@@ -819,6 +1439,7 @@ export default function App() {
                     <textarea
                       value={temp700Text}
                       onChange={(e) => setTemp700Text(e.target.value)}
+                      dir="auto"
                       placeholder="在此編輯規範字樣..."
                       className="w-full h-24 p-3 bg-white rounded-2xl border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 font-mono text-xs resize-none"
                     />
@@ -827,30 +1448,19 @@ export default function App() {
                     此尺寸規範下，切換語言將會重置字樣內容。
                   </div>
                 </section>
-              ) : selectedSize.isCustom ? (
+              ) : !isSingleLineSize(selectedSize) ? (
                 <>
                   {/* Language Selection for Custom */}
-                  <section className="space-y-4">
-                    <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
-                      <Languages size={14} />
-                      <span>語言預設 (自定義尺寸)</span>
-                    </div>
-                    <div className="grid grid-cols-2 gap-2">
-                      {LANGUAGE_PRESETS.map((lang) => (
-                        <button
-                          key={lang.id}
-                          onClick={() => setSelectedLang(lang)}
-                          className={`p-3 text-sm rounded-xl border transition-all ${
-                            selectedLang.id === lang.id
-                              ? 'bg-[#141414] text-white border-[#141414]'
-                              : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
-                          }`}
-                        >
-                          {lang.name}
-                        </button>
-                      ))}
-                    </div>
-                  </section>
+                  <LanguagePresetPicker
+                    title="語言預設 (自定義尺寸)"
+                    presets={languagePresets}
+                    customIds={customPresets.map(l => l.id)}
+                    selectedId={selectedLang.id}
+                    onSelect={selectLanguage}
+                    onImport={importLanguagePresets}
+                    onExport={exportLanguagePresets}
+                    onDelete={removeLanguagePreset}
+                  />
 
                   {/* Custom Text Area */}
                   {selectedLang.id === 'custom' && (
@@ -862,9 +1472,17 @@ export default function App() {
                       <textarea
                         value={customText}
                         onChange={(e) => setCustomText(e.target.value)}
+                        dir="auto"
                         placeholder="在此輸入自訂字符..."
                         className="w-full h-32 p-4 bg-white rounded-2xl border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 font-mono text-sm resize-none"
                       />
+                      <button
+                        onClick={saveCustomTextAsPreset}
+                        disabled={customText.trim().length === 0}
+                        className="text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors disabled:opacity-40"
+                      >
+                        儲存為語言預設
+                      </button>
                     </section>
                   )}
                 </>
@@ -879,6 +1497,7 @@ export default function App() {
                     type="text"
                     value={singleLineText}
                     onChange={(e) => setSingleLineText(e.target.value)}
+                    dir="auto"
                     placeholder="輸入單行字樣..."
                     className="w-full p-4 bg-white rounded-2xl border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 font-mono text-sm"
                   />
@@ -906,6 +1525,9 @@ export default function App() {
                         <AlertCircle size={12} className="shrink-0 mt-0.5" />
                         <p>越多張的圖片合併，每張圖的字樣會越小越不清晰，合併的圖片建議一次不超過4張為基準。</p>
                       </div>
+                      {specimenKind !== 'text' && (
+                        <p className="text-[10px] text-amber-700 italic">目前的尺寸規範有專屬版面，不套用組合合併。</p>
+                      )}
                       <div className="flex gap-2">
                         <button 
                           onClick={() => setSelectedCollageIds(fonts.map(f => f.id))}
@@ -920,6 +1542,93 @@ export default function App() {
                           清除
                         </button>
                       </div>
+
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-mono uppercase text-amber-800">排列方式</label>
+                        <div className="grid grid-cols-2 gap-2">
+                          {COLLAGE_LAYOUT_OPTIONS.map(option => (
+                            <button
+                              key={option.id}
+                              onClick={() => updateCollageOptions({ layout: option.id })}
+                              className={`py-2 rounded-xl text-xs font-medium transition-all ${collageOptions.layout === option.id ? 'bg-amber-600 text-white shadow-md' : 'bg-white border border-amber-200 hover:bg-white/80'}`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-2">
+                        {collageOptions.layout === 'columns' && (
+                          <div className="space-y-1">
+                            <label className="text-[10px] font-mono uppercase text-amber-800">欄數</label>
+                            <input
+                              type="number"
+                              min="1"
+                              max="10"
+                              value={collageOptions.columns}
+                              onChange={(e) => updateCollageOptions({ columns: Math.max(1, Number(e.target.value) || 1) })}
+                              className="w-full p-2 bg-white rounded-lg border border-amber-200 focus:outline-none focus:ring-2 focus:ring-amber-300 text-xs"
+                            />
+                          </div>
+                        )}
+                        <div className="space-y-1">
+                          <label className="text-[10px] font-mono uppercase text-amber-800">間距 (px)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="200"
+                            value={collageOptions.gutter}
+                            onChange={(e) => updateCollageOptions({ gutter: Math.max(0, Number(e.target.value) || 0) })}
+                            className="w-full p-2 bg-white rounded-lg border border-amber-200 focus:outline-none focus:ring-2 focus:ring-amber-300 text-xs"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <label className="text-[10px] font-mono uppercase text-amber-800">外邊距 (px)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="400"
+                            value={collageOptions.margin}
+                            onChange={(e) => updateCollageOptions({ margin: Math.max(0, Number(e.target.value) || 0) })}
+                            className="w-full p-2 bg-white rounded-lg border border-amber-200 focus:outline-none focus:ring-2 focus:ring-amber-300 text-xs"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-mono uppercase text-amber-800">格線樣式</label>
+                        <div className="flex items-center gap-2">
+                          {COLLAGE_BORDER_OPTIONS.map(option => (
+                            <button
+                              key={option.id}
+                              onClick={() => updateCollageOptions({ borderStyle: option.id })}
+                              className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${collageOptions.borderStyle === option.id ? 'bg-amber-600 text-white shadow-md' : 'bg-white border border-amber-200 hover:bg-white/80'}`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                        {collageOptions.borderStyle !== 'none' && (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="color"
+                              value={collageOptions.borderColor}
+                              onChange={(e) => updateCollageOptions({ borderColor: e.target.value })}
+                              className="h-8 w-10 rounded border border-amber-200 bg-white"
+                            />
+                            <input
+                              type="range"
+                              min="1"
+                              max="10"
+                              value={collageOptions.borderWidth}
+                              onChange={(e) => updateCollageOptions({ borderWidth: Number(e.target.value) })}
+                              className="flex-1 accent-amber-600"
+                            />
+                            <span className="text-[10px] font-mono text-amber-800 w-10 text-right">{collageOptions.borderWidth}px</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   )}
                 </section>
@@ -944,27 +1653,164 @@ export default function App() {
                     />
                   </button>
                 </div>
+
+                {showCopyright && (
+                  <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 text-[10px] font-mono uppercase text-blue-800/70">
+                        <Stamp size={12} />
+                        <span>著作資訊設定檔</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => setEditingProfile({ ...DEFAULT_COPYRIGHT_PROFILE, id: createProfileId(), name: '新設定檔' })}
+                          className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+                        >
+                          <Plus size={10} />
+                          新增
+                        </button>
+                        <button
+                          onClick={() => copyrightInputRef.current?.click()}
+                          className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+                        >
+                          <FileUp size={10} />
+                          匯入
+                        </button>
+                        <button
+                          onClick={exportProfiles}
+                          disabled={copyrightProfiles.length === 0}
+                          className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors disabled:opacity-40"
+                        >
+                          <FileDown size={10} />
+                          匯出 ({copyrightProfiles.length})
+                        </button>
+                        <input
+                          type="file"
+                          ref={copyrightInputRef}
+                          accept=".json,application/json"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importProfiles(file);
+                            e.target.value = '';
+                          }}
+                          className="hidden"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      {allCopyrightProfiles.map((profile) => {
+                        const isSelected = selectedProfile.id === profile.id;
+                        const isCustom = profile.id !== DEFAULT_COPYRIGHT_PROFILE.id;
+                        return (
+                          <div key={profile.id} className="relative group">
+                            <button
+                              onClick={() => setSelectedCopyrightId(profile.id)}
+                              className={`w-full p-3 rounded-xl border text-left transition-all ${
+                                isSelected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white border-blue-200 hover:border-blue-400'
+                              }`}
+                            >
+                              <span className="block text-sm truncate">{profile.name}</span>
+                              <span className="block text-[10px] font-mono opacity-60">
+                                {profile.owner || '—'}{profile.logo ? ' · 標誌' : ''}{profile.watermark ? ' · 浮水印' : ''}
+                              </span>
+                            </button>
+                            {isCustom && (
+                              <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                {[
+                                  { icon: Pencil, title: '編輯', onClick: () => setEditingProfile(profile) },
+                                  { icon: Copy, title: '複製', onClick: () => duplicateProfile(profile) },
+                                  { icon: Trash2, title: '刪除', onClick: () => removeProfile(profile.id) },
+                                ].map(({ icon: Icon, title, onClick }) => (
+                                  <button
+                                    key={title}
+                                    title={title}
+                                    onClick={onClick}
+                                    className="p-1 rounded-md bg-white text-[#141414] border border-[#141414]/10 hover:bg-[#F5F5F0]"
+                                  >
+                                    <Icon size={12} />
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
               </section>
 
+              {/* 以設定檔 id 為 key，切換編輯對象時重設草稿 */}
+              {editingProfile && (
+                <React.Fragment key={editingProfile.id}>
+                  <CopyrightProfileEditor
+                    profile={editingProfile}
+                    onSave={saveProfile}
+                    onCancel={() => setEditingProfile(null)}
+                  />
+                </React.Fragment>
+              )}
+
+              <ThemePicker theme={theme} onChange={setTheme} />
+
               {/* Adjustments */}
               <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-6">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="text-sm font-bold uppercase tracking-wider">樣式調整</h3>
-                  {(selectedSize.fixedLineHeight !== undefined || selectedSize.fixedLetterSpacing !== undefined) && (
+                  {(selectedSize.fixedFontSize !== undefined || selectedSize.fixedLineHeight !== undefined || selectedSize.fixedLetterSpacing !== undefined) && (
                     <span className="text-[10px] bg-[#141414] text-white px-2 py-0.5 rounded-full">部分參數固定不開放調整</span>
                   )}
                 </div>
+                {specimenKind === 'text' && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+                        <Maximize2 size={14} />
+                        <span>自動調整字級</span>
+                      </div>
+                      <button
+                        onClick={() => setAutoFit(autoFit ? undefined : 'size')}
+                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                          autoFit ? 'bg-[#141414]' : 'bg-[#141414]/20'
+                        }`}
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            autoFit ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                    {autoFit && (
+                      <label className={`flex items-center gap-2 text-xs ${selectedSize.fixedLetterSpacing !== undefined ? 'opacity-40' : ''}`}>
+                        <input
+                          type="checkbox"
+                          checked={autoFit === 'size-and-spacing'}
+                          disabled={selectedSize.fixedLetterSpacing !== undefined}
+                          onChange={(e) => setAutoFit(e.target.checked ? 'size-and-spacing' : 'size')}
+                          className="accent-[#141414]"
+                        />
+                        必要時壓縮字距（最多 -0.1em）
+                      </label>
+                    )}
+                    {autoFit && (
+                      <p className="text-[10px] opacity-50 leading-relaxed">
+                        每款字體各自尋找能放入左右內距與圖片高度內的最大字級{selectedSize.fixedFontSize !== undefined ? '；此尺寸固定字級，僅調整字距' : ''}。
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="space-y-3">
                   <div className="flex justify-between text-xs font-mono uppercase opacity-50">
                     <span>字體大小</span>
-                    <span>{activeFontSize}px</span>
+                    <span>{autoFit && specimenKind === 'text' && selectedSize.fixedFontSize === undefined ? '自動' : `${activeFontSize}px`}</span>
                   </div>
                   <input
                     type="range"
                     min="10"
                     max="300"
                     value={activeFontSize}
-                    disabled={selectedSize.fixedFontSize !== undefined}
+                    disabled={selectedSize.fixedFontSize !== undefined || specimenKind === 'waterfall' || (autoFit !== undefined && specimenKind === 'text')}
                     onChange={(e) => setFontSize(parseInt(e.target.value))}
                     className="w-full accent-[#141414]"
                   />
@@ -1006,6 +1852,171 @@ export default function App() {
                   </div>
                 </div>
               </section>
+
+              {/* Export Checks */}
+              {validations.length > 0 && (autoFit || clippedFontCount + warningFontCount > 0) && (
+                <section className={`p-6 rounded-3xl border space-y-3 ${
+                  clippedFontCount > 0
+                    ? 'bg-red-50 border-red-200'
+                    : warningFontCount > 0 ? 'bg-amber-50 border-amber-200' : 'bg-white border-[#141414]/5 shadow-sm'
+                }`}>
+                  <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+                    {clippedFontCount + warningFontCount > 0 ? <AlertCircle size={14} /> : <CheckCircle2 size={14} />}
+                    <span>
+                      {clippedFontCount + warningFontCount > 0
+                        ? `輸出前檢查：${clippedFontCount} 款被裁切、${warningFontCount} 款需注意`
+                        : '輸出前檢查：字樣皆完整'}
+                    </span>
+                  </div>
+                  <ul className="space-y-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+                    {validations.map(v => {
+                      const severity = getValidationSeverity(v);
+                      return (
+                        <li key={v.font.id} className="text-[10px] space-y-0.5">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="truncate font-medium">{v.font.fileName}</span>
+                            {autoFit && specimenKind === 'text' && (
+                              <span className="shrink-0 font-mono opacity-50">{v.fit.fontSize}px · {v.fit.letterSpacing}px</span>
+                            )}
+                          </div>
+                          {describeValidation(v).map(issue => (
+                            <p key={issue} className={`break-all ${severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>{issue}</p>
+                          ))}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {clippedFontCount > 0 && (
+                    <p className="text-[10px] text-red-700 italic">有字樣被裁切時無法輸出，請縮小字級、開啟自動調整字級或加大尺寸。</p>
+                  )}
+                </section>
+              )}
+
+              {/* OpenType Features */}
+              {fontFeatures.length > 0 && (
+                <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-4 animate-in fade-in slide-in-from-top-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+                      <ListChecks size={14} />
+                      <span>OpenType 功能 ({fontFeatures.length})</span>
+                    </div>
+                    {hasCustomFeatures(features) && (
+                      <button
+                        onClick={() => setFeatures({})}
+                        className="text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+                      >
+                        重設
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-1 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+                    {fontFeatures.map(feature => (
+                      <label
+                        key={feature.tag}
+                        title={feature.supported ? feature.label : '此功能僅使用上下文替代查找表，字形路徑模式無法預覽'}
+                        className={`flex items-center gap-2 text-[10px] px-2 py-1 rounded-lg border border-[#141414]/5 ${feature.supported ? 'cursor-pointer hover:bg-[#141414]/5' : 'opacity-40 cursor-not-allowed'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={isFeatureOn(feature.tag, features)}
+                          disabled={!feature.supported}
+                          onChange={(e) => setFeatures(prev => ({ ...prev, [feature.tag]: e.target.checked }))}
+                          className="accent-[#141414]"
+                        />
+                        <span className="font-mono">{feature.tag}</span>
+                        <span className="truncate opacity-60">{feature.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {/* Variable Font Axes */}
+              {variationAxes.length > 0 && (
+                <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-6 animate-in fade-in slide-in-from-top-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+                      <SlidersHorizontal size={14} />
+                      <span>可變字體軸 ({variationAxes.length})</span>
+                    </div>
+                    <button
+                      onClick={() => currentFont && setVariation(getDefaultVariation(currentFont.font))}
+                      className="text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+                    >
+                      重設
+                    </button>
+                  </div>
+
+                  {variationAxes.map(axis => {
+                    const value = variation[axis.tag] ?? axis.default;
+                    const isCanvasAxis = CANVAS_AXES.includes(axis.tag);
+                    return (
+                      <div key={axis.tag} className={`space-y-3 transition-opacity ${isCanvasAxis ? '' : 'opacity-50'}`}>
+                        <div className="flex justify-between text-xs font-mono uppercase opacity-50">
+                          <span>{axis.name} ({axis.tag})</span>
+                          <span>{Math.round(value * 100) / 100}</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={axis.min}
+                          max={axis.max}
+                          step={axis.max - axis.min > 10 ? 1 : 0.1}
+                          value={value}
+                          disabled={!isCanvasAxis}
+                          onChange={(e) => setVariation(prev => ({ ...prev, [axis.tag]: parseFloat(e.target.value) }))}
+                          className="w-full accent-[#141414]"
+                        />
+                      </div>
+                    );
+                  })}
+
+                  {namedInstances.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-[10px] font-mono uppercase opacity-50">具名實例</div>
+                      <div className="flex flex-wrap gap-1">
+                        {namedInstances.map(instance => {
+                          const isActive = variationAxes.every(axis => (variation[axis.tag] ?? axis.default) === (instance.coordinates[axis.tag] ?? axis.default));
+                          const unrendered = getUnrenderedAxes(currentFont.font, instance.coordinates, 'canvas');
+                          return (
+                            <button
+                              key={instance.name}
+                              onClick={() => setVariation(instance.coordinates)}
+                              title={unrendered.length > 0 ? `${formatVariation(instance.coordinates)}：${unrendered.join('、')} 無法以瀏覽器文字繪製` : formatVariation(instance.coordinates)}
+                              className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${
+                                isActive
+                                  ? 'bg-[#141414] text-white border-[#141414]'
+                                  : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
+                              } ${unrendered.length > 0 ? 'border-dashed opacity-60' : ''}`}
+                            >
+                              {instance.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {effectiveRenderMode === 'glyph' && (
+                    <p className="text-[10px] text-amber-700">
+                      字形路徑模式與 PDF / SVG 向量輸出僅能繪製預設實例，軸設定只在瀏覽器文字 (Canvas) 模式的 PNG / JPG 生效。
+                    </p>
+                  )}
+                  {variationAxes.some(axis => !CANVAS_AXES.includes(axis.tag)) && (
+                    <p className="text-[10px] opacity-50">
+                      {variationAxes.filter(axis => !CANVAS_AXES.includes(axis.tag)).map(axis => axis.tag).join('、')} 無法經由瀏覽器文字套用，預覽與輸出一律維持預設值；虛線標示的實例含有這類軸值，批次輸出時會略過。
+                    </p>
+                  )}
+                  <p className="text-[10px] opacity-50">
+                    字樣圖冊、CLI 與渲染服務不讀取軸設定，一律繪製預設實例。
+                  </p>
+                  {effectiveRenderMode === 'canvas' && currentUnrenderedAxes.length > 0 && (
+                    <p className="text-[10px] text-amber-700">
+                      目前的 {currentUnrenderedAxes.join('、')} 軸值無法精確繪製（wdth 取最接近的 font-stretch 關鍵字，其他軸維持預設值），預覽與輸出會與設定不同。
+                    </p>
+                  )}
+                </section>
+              )}
             </div>
 
             {/* Right Column: Preview & Export */}
@@ -1018,11 +2029,34 @@ export default function App() {
                       <ImageIcon size={14} />
                       <span>畫布預覽</span>
                     </div>
-                    <div className="text-[10px] font-mono opacity-30">
-                      {(() => {
-                        const { width, height } = getActiveDimensions();
-                        return `${width} x ${height}`;
-                      })()}
+                    <div className="flex items-center gap-3">
+                      {previewPageCount > 1 && (
+                        <div className="flex items-center gap-1 text-[10px] font-mono">
+                          <button
+                            onClick={() => setPreviewPage(Math.max(0, activePreviewPage - 1))}
+                            disabled={activePreviewPage === 0}
+                            className="p-1 rounded-lg hover:bg-[#141414]/5 disabled:opacity-20"
+                            title="上一頁"
+                          >
+                            <ChevronLeft size={14} />
+                          </button>
+                          <span className="opacity-60">第 {activePreviewPage + 1} / {previewPageCount} 頁</span>
+                          <button
+                            onClick={() => setPreviewPage(Math.min(previewPageCount - 1, activePreviewPage + 1))}
+                            disabled={activePreviewPage >= previewPageCount - 1}
+                            className="p-1 rounded-lg hover:bg-[#141414]/5 disabled:opacity-20"
+                            title="下一頁"
+                          >
+                            <ChevronRight size={14} />
+                          </button>
+                        </div>
+                      )}
+                      <div className="text-[10px] font-mono opacity-30">
+                        {(() => {
+                          const { width, height } = getActiveDimensions();
+                          return `${width} x ${height}`;
+                        })()}
+                      </div>
                     </div>
                   </div>
                   
@@ -1033,19 +2067,21 @@ export default function App() {
                       let displayWidth = width;
                       let displayHeight = height;
                       
-                      if (isCollageMode && selectedCollageIds.length > 1) {
+                      if (isCollageLayout) {
                         const collageFonts = fonts.filter(f => selectedCollageIds.includes(f.id));
-                        const count = collageFonts.length;
-                        const cols = Math.ceil(Math.sqrt(count));
-                        const rows = Math.ceil(count / cols);
-                        displayWidth = cols * width;
-                        displayHeight = rows * height;
+                        const collageSize = getCollageSize(collageFonts.length, width, height, collageOptions);
+                        displayWidth = collageSize.width;
+                        displayHeight = collageSize.height;
                       }
 
+                      // 透明背景以棋盤格顯示
+                      const isTransparent = resolveBackground(getExportTheme(theme, exportFormat), selectedSize).type === 'transparent';
+
                       return (
                         <div 
-                          className="shadow-2xl transition-all duration-500 bg-white overflow-hidden"
+                          className={`relative shadow-2xl transition-all duration-500 overflow-hidden ${isTransparent ? '' : 'bg-white'}`}
                           style={{ 
+                            ...(isTransparent ? CHECKERBOARD_STYLE : {}),
                             width: '100%',
                             maxWidth: displayWidth,
                             aspectRatio: `${displayWidth} / ${displayHeight}`
@@ -1061,12 +2097,78 @@ export default function App() {
                               display: 'block'
                             }}
                           />
+                          {isGuideOverlayVisible && (
+                            <canvas
+                              ref={guideCanvasRef}
+                              width={displayWidth}
+                              height={displayHeight}
+                              className="absolute inset-0 w-full h-full pointer-events-none"
+                            />
+                          )}
                         </div>
                       );
                     })()}
                   </div>
                 </div>
 
+                {/* Render Mode Selection */}
+                <div className="p-4 bg-white/50 rounded-3xl border border-[#141414]/5 space-y-3">
+                  <div className="text-[10px] font-mono uppercase opacity-50 px-2">渲染模式 (Render Mode)</div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setRenderMode('canvas')}
+                      className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${renderMode === 'canvas' ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                    >
+                      瀏覽器文字 (Canvas)
+                    </button>
+                    <button
+                      onClick={() => setRenderMode('glyph')}
+                      className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${renderMode === 'glyph' ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                    >
+                      字形路徑 (Glyph Path)
+                    </button>
+                  </div>
+                  {isVectorFormat(exportFormat) && renderMode === 'canvas' && (
+                    <p className="text-[10px] text-amber-700 px-2">
+                      PDF / SVG 為向量輸出，字樣一律以字形輪廓寫入；預覽已暫時改用字形路徑，確保與輸出一致。
+                    </p>
+                  )}
+                  {!isVectorFormat(exportFormat) && renderMode === 'canvas' && effectiveRenderMode === 'glyph' && (
+                    <p className="text-[10px] text-amber-700 px-2">
+                      瀏覽器文字無法切換 OpenType 功能；已調整功能時，預覽與輸出暫時改用字形路徑。
+                    </p>
+                  )}
+                  {renderMode === 'glyph' && (
+                    <p className="text-[10px] opacity-50 px-2">
+                      直接以字體檔的字形輪廓繪製並套用字距微調 (kerning)，輸出結果固定且不會使用系統替代字體；缺字將顯示為 .notdef。
+                    </p>
+                  )}
+                </div>
+
+                {/* Metric Guides */}
+                {specimenKind === 'text' && !isCollageLayout && !isDiffLayout && (
+                  <div className="p-4 bg-white/50 rounded-3xl border border-[#141414]/5 space-y-3">
+                    <div className="text-[10px] font-mono uppercase opacity-50 px-2">度量參考線 (Metric Guides)</div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setShowMetricGuides(!showMetricGuides)}
+                        className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${showMetricGuides ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                      >
+                        預覽顯示參考線
+                      </button>
+                      <button
+                        onClick={() => setBurnMetricGuides(!burnMetricGuides)}
+                        className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${burnMetricGuides ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                      >
+                        輸出時包含參考線
+                      </button>
+                    </div>
+                    <p className="text-[10px] opacity-50 px-2">
+                      依字體度量標出每行的上緣、大寫字高、x 字高、基線與下緣，以及左右內距與換行後的行框；預覽參考線不會出現在輸出中，技術校樣請開啟「輸出時包含參考線」。
+                    </p>
+                  </div>
+                )}
+
                 {/* Export Format Selection */}
                 <div className="p-4 bg-white/50 rounded-3xl border border-[#141414]/5 space-y-3">
                   <div className="text-[10px] font-mono uppercase opacity-50 px-2">匯出格式 (Export Format)</div>
@@ -1089,7 +2191,49 @@ export default function App() {
                     >
                       PDF
                     </button>
+                    <button
+                      onClick={() => setExportFormat('svg')}
+                      className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${exportFormat === 'svg' ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                    >
+                      SVG
+                    </button>
                   </div>
+                  <div className="flex items-center gap-2">
+                    {EXPORT_SCALES.map(scale => (
+                      <button
+                        key={scale}
+                        onClick={() => setExportScale(scale)}
+                        className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${exportScale === scale ? 'bg-[#141414] text-white shadow-md' : 'bg-white text-[#141414] border border-[#141414]/10 hover:bg-white/80'}`}
+                      >
+                        {scale}×
+                      </button>
+                    ))}
+                    <label className="flex items-center gap-1 text-[10px] font-mono uppercase opacity-60">
+                      <input
+                        type="number"
+                        min={getExportDpi(MIN_EXPORT_SCALE)}
+                        max={getExportDpi(MAX_EXPORT_SCALE)}
+                        step="1"
+                        value={dpiDraft ?? getExportDpi(exportScale)}
+                        onChange={(e) => setDpiDraft(e.target.value)}
+                        onBlur={commitDpiDraft}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitDpiDraft();
+                        }}
+                        className="w-16 p-2 bg-white rounded-lg border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 text-xs"
+                      />
+                      DPI
+                    </label>
+                  </div>
+                  {(exportScale !== 1 || isRasterScaleClamped) && (
+                    <p className={`text-[10px] px-2 ${isRasterScaleClamped ? 'text-amber-700' : 'opacity-50'}`}>
+                      {isVectorFormat(exportFormat)
+                        ? `向量檔不受倍率影響，${exportFormat === 'pdf' ? `PDF 記錄為 ${getExportDpi(exportScale)} DPI` : 'SVG 預設顯示尺寸放大'}。`
+                        : isRasterScaleClamped
+                          ? `超過單邊 ${MAX_EXPORT_DIM}px 上限，將降為 ${Number(rasterExport.scale.toFixed(2))}× 輸出 ${rasterExport.width} x ${rasterExport.height}px。`
+                          : `輸出 ${rasterExport.width} x ${rasterExport.height}px，版面與預覽相同。`}
+                    </p>
+                  )}
                 </div>
 
                 {/* Export Button */}
@@ -1104,13 +2248,54 @@ export default function App() {
                     <Download size={24} />
                   )}
                   <div className="flex flex-col items-start leading-tight">
-                    <span className="text-xl font-medium">產出並下載{exportFormat === 'pdf' ? '文件' : '圖片'}</span>
+                    <span className="text-xl font-medium">產出並下載{isVectorFormat(exportFormat) ? '向量檔' : '圖片'}</span>
                     <span className="text-[10px] opacity-50 uppercase tracking-widest">
-                      {isCollageMode && collageFonts.length > 1 ? `組合合併 ${processCount} 款字體` : (processCount > 1 ? `批次處理 ${processCount} 款字重` : '單一字重產出')}
+                      {isDiffLayout
+                        ? `版本比較報告 · 依頁數輸出`
+                        : specimenKind === 'comparison'
+                        ? `字重比較 ${fontsToProcess.length} 款字體`
+                        : isPagedSpecimenKind(specimenKind)
+                        ? `${specimenKind === 'charmap' ? '字元表' : '字距校樣'} ${processCount} 款字體 · 依頁數輸出`
+                        : isCollageLayout ? `組合合併 ${processCount} 款字體` : (processCount > 1 ? `批次處理 ${processCount} 款字重 · ZIP 打包` : '單一字重產出')}
                     </span>
                   </div>
                 </button>
 
+                <button
+                  onClick={downloadSpecimenBook}
+                  disabled={isGenerating}
+                  className="w-full flex items-center justify-center gap-2 py-3 bg-white text-[#141414] rounded-2xl border border-[#141414]/10 hover:bg-white/80 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <BookOpen size={18} />
+                  <span className="text-sm font-medium">產出 PDF 字樣圖冊（{fontsToProcess.length} 款字體 × 全部語言）</span>
+                </button>
+
+                {featureFontsToProcess.length > 0 && (
+                  <button
+                    onClick={downloadFeaturesSheets}
+                    disabled={isGenerating}
+                    className="w-full flex items-center justify-center gap-2 py-3 bg-white text-[#141414] rounded-2xl border border-[#141414]/10 hover:bg-white/80 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ListChecks size={18} />
+                    <span className="text-sm font-medium">產出 OpenType 功能對照圖（{featureFontsToProcess.length} 款字體）</span>
+                  </button>
+                )}
+
+                {instanceTargets.length > 0 && (
+                  <button
+                    onClick={downloadInstances}
+                    disabled={isGenerating || !canExportInstances}
+                    className="w-full flex items-center justify-center gap-2 py-3 bg-white text-[#141414] rounded-2xl border border-[#141414]/10 hover:bg-white/80 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Layers size={18} />
+                    <span className="text-sm font-medium">
+                      依具名實例批次輸出（{renderableInstances.length} 個實例
+                      {skippedInstances.length > 0 ? `，略過 ${skippedInstances.length} 個無法繪製的實例` : ''}
+                      {effectiveRenderMode === 'canvas' ? '' : '，需 Canvas 模式與 PNG / JPG'}）
+                    </span>
+                  </button>
+                )}
+
                 <div className="p-6 bg-white/50 rounded-2xl border border-[#141414]/5">
                   <h4 className="text-sm font-medium mb-2">使用提示：</h4>
                   <ul className="text-xs space-y-1 opacity-60 list-disc pl-4">
@@ -1119,7 +2304,24 @@ export default function App() {
                     <li>700x166 尺寸已根據語言規範預設字符。</li>
                     <li>若選擇「其他語言」或「自定義尺寸」，請在左側輸入框輸入您想產出的字符。</li>
                     <li>您可以調整字體大小與行高以達到最佳視覺效果。</li>
-                    <li>下載的圖片將維持原始像素尺寸。</li>
+                    <li>下載的圖片預設維持原始像素尺寸；可選 2× / 3× 或指定 DPI（72 DPI 為 1×）輸出高解析度版本，版面不變。</li>
+                    <li>批次產出多款字體時會打包為單一 ZIP，並附上記錄各圖設定的 manifest.json。</li>
+                    <li>階梯字樣固定以 12 / 16 / 24 / 36 / 48 / 72 px 排列同一行；字重比較依 usWeightClass 由細到粗排列已勾選的字體。</li>
+                    <li>PDF 與 SVG 以字形輪廓輸出，可任意縮放列印；PDF 中非拉丁字元的標註文字（如版權資訊）以高解析度圖片嵌入。</li>
+                    <li>字體檢視顯示所選字體的度量、OS/2、name table、Unicode 範圍與資料表，可匯出 JSON 或 CSV。</li>
+                    <li>版本比較列出兩個版本間新增、移除、輪廓或字寬變更的字形，以及字距、度量與 name table 的差異；比較報告可輸出為圖片或多頁 PDF。</li>
+                    <li>字距校樣從 kern / GPOS 讀取字距對，置於 HOH / non 控制字串中逐格排列；超過 0.15 em 的字距與常見但未設定的字距對會以顏色標示並排在最前面。</li>
+                    <li>字元表列出字體的每個字形並標示碼位與字形名稱，超過一頁時分頁輸出多張圖，PDF 則為單一多頁文件。</li>
+                    <li>PDF 字樣圖冊包含封面、可點擊目錄，以及每款字體的資訊頁與各語言字樣。</li>
+                    <li>OpenType 功能（連字、風格組、等寬數字、小型大寫等）以字形路徑套用；功能對照圖逐列比較每個功能關閉與開啟的效果。</li>
+                    <li>度量參考線依字體的上緣、大寫字高、x 字高、基線與下緣畫線，並標出左右內距與每行的行框，方便調整字級與行高；可選擇是否一併輸出。</li>
+                    <li>開啟「自動調整字級」後，每款字體會各自縮放至左右內距與圖片高度內。</li>
+                    <li>輸出前會逐一檢查字體：有行被裁切時停止輸出，超出文字範圍或缺字時需確認後才輸出。</li>
+                    <li>著作資訊可建立多組設定檔（作品名稱、作者、著作權人、位置、字體、透明度、標誌與平鋪浮水印），輸出前選擇要套用的設定檔。</li>
+                    <li>配色可設定文字顏色與純色、漸層或透明背景；JPG 不支援透明，會以設定的底色填滿。</li>
+                    <li>可將目前尺寸另存為範本，設定內距、背景、對齊與固定的字級 / 行高 / 字距，並以 JSON 匯入 / 匯出分享。</li>
+                    <li>語言預設（含繁簡中文、日文、韓文、希臘文、希伯來文、天城文）以 JSON 定義文字方向、文字代碼與建議字級；可匯入 / 匯出自訂預設。</li>
+                    <li>可變字體可在左側調整 wght / wdth / slnt / ital 軸，或以具名實例批次輸出每個實例各一張圖；軸值僅在瀏覽器文字模式的 PNG / JPG 生效，其他軸（如 opsz、GRAD）維持預設值。</li>
                   </ul>
                 </div>
               </div>
@@ -1142,6 +2344,18 @@ export default function App() {
             >
               立即上傳
             </button>
+            {libraryEntries.length > 0 && (
+              <div className="w-full max-w-xl pt-8">
+                <p className="text-center text-xs text-[#141414]/40 mb-4">或從字體庫載入先前上傳的字體</p>
+                <FontLibraryPanel
+                  entries={libraryEntries}
+                  loadedIds={[]}
+                  onLoad={loadFromLibrary}
+                  onDelete={deleteFromLibrary}
+                  onTagsChange={setLibraryTags}
+                />
+              </div>
+            )}
           </div>
         )}
 
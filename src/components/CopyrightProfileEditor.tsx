@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Stamp, X } from 'lucide-react';
+import {
+  CopyrightProfile,
+  CopyrightPosition,
+  CopyrightWatermark,
+  WatermarkSource,
+  DEFAULT_WATERMARK,
+  WORK_NAME_PLACEHOLDER,
+  parseCopyrightProfile,
+} from '../lib/copyright';
+
+type CopyrightProfileEditorProps = {
+  profile: CopyrightProfile;
+  onSave: (profile: CopyrightProfile) => void;
+  onCancel: () => void;
+};
+
+const POSITION_OPTIONS: { id: CopyrightPosition; label: string }[] = [
+  { id: 'auto', label: '自動' },
+  { id: 'top-left', label: '左上' },
+  { id: 'top-right', label: '右上' },
+  { id: 'bottom-left', label: '左下' },
+  { id: 'bottom-right', label: '右下' },
+];
+
+const WATERMARK_SOURCE_OPTIONS: { id: WatermarkSource; label: string }[] = [
+  { id: 'text', label: '文字' },
+  { id: 'logo', label: '標誌圖片' },
+];
+
+const WATERMARK_FIELDS = [
+  { key: 'size', label: '大小 (px)', min: 1, max: 200, step: 1 },
+  { key: 'angle', label: '角度 (°)', min: -90, max: 90, step: 5 },
+  { key: 'spacing', label: '間距 (px)', min: 40, max: 1000, step: 10 },
+] as const;
+
+const inputClassName = 'w-full p-2 bg-white rounded-lg border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 text-xs';
+const labelClassName = 'text-[10px] font-mono uppercase opacity-40';
+
+const readDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export default function CopyrightProfileEditor({ profile, onSave, onCancel }: CopyrightProfileEditorProps) {
+  const [draft, setDraft] = useState<CopyrightProfile>(profile);
+  const [error, setError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<CopyrightProfile>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateWatermark = (changes: Partial<CopyrightWatermark>) =>
+    setDraft(prev => ({ ...prev, watermark: { ...(prev.watermark ?? DEFAULT_WATERMARK), ...changes } }));
+
+  // 移除標誌時，以標誌為來源的浮水印改回文字
+  const removeLogo = () =>
+    setDraft(prev => ({
+      ...prev,
+      logo: undefined,
+      watermark: prev.watermark && { ...prev.watermark, source: 'text' },
+    }));
+
+  const uploadLogo = async (file: File) => {
+    try {
+      update({ logo: await readDataUrl(file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const save = () => {
+    try {
+      onSave(parseCopyrightProfile(draft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const { watermark } = draft;
+
+  return (
+    <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-5 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+        <Stamp size={14} />
+        <span>編輯著作資訊設定檔</span>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="設定檔名稱"
+          className={inputClassName}
+        />
+        <div className="space-y-1">
+          <label className={labelClassName}>作品名稱（{WORK_NAME_PLACEHOLDER} 代表字體檔名）</label>
+          <input
+            type="text"
+            value={draft.workName}
+            onChange={(e) => update({ workName: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(['author', 'owner'] as const).map(key => (
+            <div key={key} className="space-y-1">
+              <label className={labelClassName}>{key === 'author' ? '作者' : '著作權人'}</label>
+              <input
+                type="text"
+                value={draft[key]}
+                onChange={(e) => update({ [key]: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClassName}>位置</label>
+        <div className="grid grid-cols-5 gap-1">
+          {POSITION_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => update({ position: option.id })}
+              className={`py-2 rounded-xl text-xs font-medium transition-all ${
+                draft.position === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClassName}>字體</label>
+          <input
+            type="text"
+            value={draft.fontFamily}
+            onChange={(e) => update({ fontFamily: e.target.value })}
+            placeholder="sans-serif"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClassName}>字級 (px)</label>
+          <input
+            type="number"
+            min="1"
+            value={draft.fontSize}
+            onChange={(e) => update({ fontSize: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <label className={labelClassName}>透明度</label>
+          <span className="text-[10px] font-mono opacity-60">{Math.round(draft.opacity * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={draft.opacity}
+          onChange={(e) => update({ opacity: Number(e.target.value) })}
+          className="w-full accent-[#141414]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClassName}>標誌圖片 (PNG / JPEG)</label>
+        <div className="flex items-center gap-2">
+          {draft.logo ? (
+            <>
+              <img src={draft.logo} alt="" className="h-10 max-w-[120px] object-contain rounded border border-[#141414]/10" />
+              <button
+                onClick={removeLogo}
+                className="p-1 rounded-md hover:bg-red-50 hover:text-red-500 transition-colors"
+              >
+                <X size={12} />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => logoInputRef.current?.click()}
+              className="py-2 px-3 rounded-xl text-xs font-medium bg-white border border-[#141414]/10 hover:border-[#141414]/30 transition-colors"
+            >
+              選擇圖片
+            </button>
+          )}
+          <input
+            type="file"
+            ref={logoInputRef}
+            accept="image/png,image/jpeg"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadLogo(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={watermark !== undefined}
+            onChange={(e) => update({ watermark: e.target.checked ? DEFAULT_WATERMARK : undefined })}
+            className="accent-[#141414]"
+          />
+          平鋪浮水印
+        </label>
+        {watermark && (
+          <div className="space-y-3 pl-5">
+            <div className="flex gap-2">
+              {WATERMARK_SOURCE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => updateWatermark({ source: option.id })}
+                  disabled={option.id === 'logo' && !draft.logo}
+                  className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all disabled:opacity-40 ${
+                    watermark.source === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {watermark.source === 'text' && (
+              <input
+                type="text"
+                value={watermark.text}
+                onChange={(e) => updateWatermark({ text: e.target.value })}
+                placeholder={draft.owner || '浮水印文字'}
+                className={inputClassName}
+              />
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              {WATERMARK_FIELDS.map(({ key, label, min, max, step }) => (
+                <div key={key} className="space-y-1">
+                  <label className={labelClassName}>{label}</label>
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={watermark[key]}
+                    onChange={(e) => updateWatermark({ [key]: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <label className={labelClassName}>浮水印透明度</label>
+                <span className="text-[10px] font-mono opacity-60">{Math.round(watermark.opacity * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={watermark.opacity}
+                onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })}
+                className="w-full accent-[#141414]"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-[10px] text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          className="flex-1 py-2 rounded-xl text-xs font-medium bg-[#141414] text-white hover:bg-[#141414]/90 transition-colors"
+        >
+          儲存設定檔
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2 rounded-xl text-xs font-medium bg-white border border-[#141414]/10 hover:border-[#141414]/30 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </section>
+  );
+}
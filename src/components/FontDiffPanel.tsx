@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { GitCompare, FileDown } from 'lucide-react';
+import { LoadedFont } from '../lib/specimen';
+import { FontDiff, FontDiffView, describeGlyphDiff, hasFontDiff } from '../lib/fontDiff';
+
+type FontDiffPanelProps = {
+  fonts: LoadedFont[];
+  isEnabled: boolean;
+  onToggle: (isEnabled: boolean) => void;
+  beforeId: string | null;
+  afterId: string | null;
+  onSelect: (beforeId: string | null, afterId: string | null) => void;
+  view: FontDiffView;
+  onViewChange: (view: FontDiffView) => void;
+  /** Null until two different fonts are selected. */
+  diff: FontDiff | null;
+  onExportList: () => void;
+};
+
+type DiffSection = 'glyphs' | 'kerning' | 'metrics' | 'names';
+
+const VIEW_OPTIONS: { id: FontDiffView; label: string }[] = [
+  { id: 'overlay', label: '疊圖' },
+  { id: 'side-by-side', label: '並排' },
+];
+
+// 字距變更可能上千筆，面板只列出前段，完整清單請匯出 JSON
+const MAX_LISTED_ROWS = 100;
+
+const labelClassName = 'text-[10px] font-mono uppercase opacity-40';
+
+const formatValue = (value: string | number | null) => (value === null ? '無' : String(value));
+
+export default function FontDiffPanel({
+  fonts,
+  isEnabled,
+  onToggle,
+  beforeId,
+  afterId,
+  onSelect,
+  view,
+  onViewChange,
+  diff,
+  onExportList,
+}: FontDiffPanelProps) {
+  const [openSection, setOpenSection] = useState<DiffSection | null>('glyphs');
+
+  const sections: { id: DiffSection; label: string; rows: string[] }[] = diff
+    ? [
+        {
+          id: 'glyphs',
+          label: `字形 (${diff.changed.length + diff.added.length + diff.removed.length})`,
+          rows: [...diff.changed, ...diff.added, ...diff.removed].map(glyph => `${glyph.name}：${describeGlyphDiff(glyph)}`),
+        },
+        {
+          id: 'kerning',
+          label: `字距 (${diff.kerning.length})`,
+          rows: diff.kerning.map(pair => `${pair.left} ${pair.right}：${formatValue(pair.before)} > ${formatValue(pair.after)}`),
+        },
+        {
+          id: 'metrics',
+          label: `度量 (${diff.metrics.length})`,
+          rows: diff.metrics.map(change => `${change.key}：${formatValue(change.before)} > ${formatValue(change.after)}`),
+        },
+        {
+          id: 'names',
+          label: `名稱 (${diff.names.length})`,
+          rows: diff.names.map(change => `${change.key}：${formatValue(change.before)} > ${formatValue(change.after)}`),
+        },
+      ]
+    : [];
+
+  const fontSelect = (label: string, value: string | null, onChange: (id: string | null) => void) => (
+    <div className="space-y-1">
+      <label className={labelClassName}>{label}</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full px-3 py-2 bg-white rounded-xl border border-[#141414]/10 text-xs focus:outline-none focus:ring-2 focus:ring-[#141414]/20"
+      >
+        <option value="">選擇字體</option>
+        {fonts.map(f => (
+          <option key={f.id} value={f.id}>{f.fileName}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+          <GitCompare size={14} />
+          <span>版本比較</span>
+        </div>
+        <button
+          onClick={() => onToggle(!isEnabled)}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none ${isEnabled ? 'bg-[#141414]' : 'bg-[#141414]/20'}`}
+        >
+          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${isEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      {isEnabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {fontSelect('舊版', beforeId, (id) => onSelect(id, afterId))}
+            {fontSelect('新版', afterId, (id) => onSelect(beforeId, id))}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>顯示方式</label>
+            <div className="grid grid-cols-2 gap-2">
+              {VIEW_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => onViewChange(option.id)}
+                  className={`py-2 rounded-xl text-xs font-medium transition-all ${
+                    view === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] opacity-50">舊版字形以紅色繪製；疊圖時以紅線標示舊版輪廓，灰色填色為新版。預覽與輸出改為比較報告，建議使用 1200 x 1600 尺寸。</p>
+          </div>
+
+          {!diff && <p className="text-[10px] opacity-50">請選擇兩款不同的字體。</p>}
+
+          {diff && !hasFontDiff(diff) && <p className="text-xs opacity-60">兩個版本沒有差異。</p>}
+
+          {diff && hasFontDiff(diff) && (
+            <div className="space-y-2">
+              {sections.map(section => (
+                <div key={section.id} className="space-y-1">
+                  <button
+                    onClick={() => setOpenSection(openSection === section.id ? null : section.id)}
+                    disabled={section.rows.length === 0}
+                    className="w-full flex justify-between text-xs font-medium disabled:opacity-30"
+                  >
+                    <span>{section.label}</span>
+                    <span className="opacity-40">{openSection === section.id ? '−' : '+'}</span>
+                  </button>
+                  {openSection === section.id && section.rows.length > 0 && (
+                    <div className="space-y-0.5 max-h-48 overflow-y-auto pr-2 custom-scrollbar text-[10px] font-mono break-all">
+                      {section.rows.slice(0, MAX_LISTED_ROWS).map((row, i) => (
+                        <p key={i}>{row}</p>
+                      ))}
+                      {section.rows.length > MAX_LISTED_ROWS && (
+                        <p className="font-sans opacity-50">另有 {section.rows.length - MAX_LISTED_ROWS} 筆，請匯出 JSON 查看。</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff && (
+            <button
+              onClick={onExportList}
+              className="w-full flex items-center justify-center gap-1 py-2 rounded-xl text-xs font-medium bg-white border border-[#141414]/10 hover:border-[#141414]/30 transition-all"
+            >
+              <FileDown size={12} />
+              匯出差異清單 JSON
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ScanSearch, ChevronDown, ChevronRight, FileDown, AlertCircle } from 'lucide-react';
+import { LoadedFont } from '../lib/specimen';
+import { InspectionFormat, inspectFont } from '../lib/fontInspector';
+
+type FontInspectorProps = {
+  font: LoadedFont;
+  onExport: (format: InspectionFormat) => void;
+};
+
+const labelClassName = 'text-[10px] font-mono uppercase opacity-40';
+
+const Field = ({ label, value }: { label: string; value: string | number | null }) => (
+  <div className="flex justify-between gap-3 text-xs">
+    <span className="opacity-50">{label}</span>
+    <span className="font-mono text-right break-all">{value ?? '-'}</span>
+  </div>
+);
+
+export default function FontInspector({ font, onExport }: FontInspectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // 只在展開時計算，Unicode 範圍需走過整個 cmap
+  const inspection = useMemo(() => (isOpen ? inspectFont(font) : null), [font, isOpen]);
+
+  return (
+    <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-5">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+          <ScanSearch size={14} />
+          <span>字體檢視</span>
+        </div>
+        <div className="flex items-center gap-1 text-[10px] font-mono opacity-40 min-w-0">
+          <span className="truncate">{font.fileName}</span>
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </div>
+      </button>
+
+      {inspection && (
+        <>
+          <div className="space-y-2">
+            <label className={labelClassName}>度量</label>
+            <Field label="unitsPerEm" value={inspection.metrics.unitsPerEm} />
+            <Field label="ascender / descender" value={`${inspection.metrics.ascender} / ${inspection.metrics.descender}`} />
+            <Field label="lineGap" value={inspection.metrics.lineGap} />
+            <Field label="xHeight" value={inspection.metrics.xHeight} />
+            <Field label="capHeight" value={inspection.metrics.capHeight} />
+            <Field label="typo ascender / descender" value={`${inspection.metrics.typoAscender ?? '-'} / ${inspection.metrics.typoDescender ?? '-'}`} />
+            <Field label="win ascent / descent" value={`${inspection.metrics.winAscent ?? '-'} / ${inspection.metrics.winDescent ?? '-'}`} />
+            <Field label="輪廓 / 字形數" value={`${inspection.outlines} / ${inspection.glyphCount}`} />
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>OS/2</label>
+            {inspection.os2 ? (
+              <>
+                <Field label="usWeightClass" value={inspection.os2.usWeightClass} />
+                <Field label="usWidthClass" value={inspection.os2.usWidthClass} />
+                <Field label="achVendID" value={inspection.os2.achVendID} />
+                <Field label="fsType" value={inspection.os2.fsType} />
+                <Field label="version" value={inspection.os2.version} />
+              </>
+            ) : (
+              <p className="text-xs opacity-50">此字體沒有 OS/2 資料表</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>Name table ({inspection.names.length})</label>
+            <div className="space-y-2 max-h-48 overflow-y-auto pr-2 custom-scrollbar">
+              {inspection.names.map(name => (
+                <div key={`${name.key}-${name.language}`} className="text-xs">
+                  <p className="font-mono text-[10px] opacity-40">{name.key} · {name.language}</p>
+                  <p className="break-words">{name.value}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>Unicode 範圍 ({inspection.unicodeRanges.length})</label>
+            <div className="space-y-1 max-h-48 overflow-y-auto pr-2 custom-scrollbar">
+              {inspection.unicodeRanges.map(range => {
+                // OS/2 宣告與 cmap 實際收錄不一致時標示
+                const isMismatch = range.declared !== range.codePoints > 0;
+                return (
+                  <div key={range.bit} className="flex items-center justify-between gap-3 text-xs">
+                    <span className={`flex items-center gap-1 min-w-0 ${isMismatch ? 'text-amber-700' : ''}`}>
+                      {isMismatch && <AlertCircle size={10} className="shrink-0" />}
+                      <span className="truncate" title={range.declared ? 'OS/2 已宣告' : 'OS/2 未宣告'}>{range.name}</span>
+                    </span>
+                    <span className="font-mono text-[10px] opacity-60 shrink-0">{range.codePoints} / {range.total}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-[10px] opacity-50">數字為 cmap 收錄的碼位數；標示警告的範圍在 OS/2 的宣告與實際收錄不一致。</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClassName}>資料表 ({inspection.tables.length})</label>
+            <div className="flex flex-wrap gap-1">
+              {inspection.tables.map(tag => (
+                <span key={tag} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-[#141414]/5">{tag}</span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['json', 'csv'] as InspectionFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="flex items-center justify-center gap-1 py-2 rounded-xl text-xs font-medium bg-white border border-[#141414]/10 hover:border-[#141414]/30 transition-all"
+              >
+                <FileDown size={12} />
+                匯出 {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Library, Search, Tag, X, FolderOpen, Trash2 } from 'lucide-react';
+import { LibrarySummary } from '../fontLibrary';
+
+type FontLibraryPanelProps = {
+  entries: LibrarySummary[];
+  loadedIds: string[];
+  onLoad: (ids: string[]) => void;
+  onDelete: (id: string) => void;
+  onTagsChange: (id: string, tags: string[]) => void;
+};
+
+const matchesQuery = (entry: LibrarySummary, query: string) => {
+  if (!query) return true;
+  const { family, subfamily, designer, version } = entry.metadata;
+  return [entry.fileName, family, subfamily, designer, version, ...entry.tags]
+    .some(value => value.toLowerCase().includes(query));
+};
+
+export default function FontLibraryPanel({ entries, loadedIds, onLoad, onDelete, onTagsChange }: FontLibraryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const allTags = Array.from(new Set(entries.flatMap(e => e.tags))).sort();
+  const normalizedQuery = query.trim().toLowerCase();
+  const visible = entries.filter(e =>
+    matchesQuery(e, normalizedQuery) && (!activeTag || e.tags.includes(activeTag))
+  );
+  const unloadedVisibleIds = visible.filter(e => !loadedIds.includes(e.id)).map(e => e.id);
+
+  const addTag = (entry: LibrarySummary) => {
+    const tag = (tagDrafts[entry.id] ?? '').trim();
+    if (tag && !entry.tags.includes(tag)) {
+      onTagsChange(entry.id, [...entry.tags, tag]);
+    }
+    setTagDrafts(prev => ({ ...prev, [entry.id]: '' }));
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+          <Library size={14} />
+          <span>字體庫 ({entries.length})</span>
+        </div>
+        {unloadedVisibleIds.length > 0 && (
+          <button
+            onClick={() => onLoad(unloadedVisibleIds)}
+            className="text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+          >
+            載入全部 ({unloadedVisibleIds.length})
+          </button>
+        )}
+      </div>
+
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 opacity-30" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜尋檔名、字族、設計師、標籤..."
+          className="w-full pl-9 pr-3 py-2 bg-white rounded-xl border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 text-xs"
+        />
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${
+                activeTag === tag
+                  ? 'bg-[#141414] text-white border-[#141414]'
+                  : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-2 custom-scrollbar">
+        {visible.length === 0 && (
+          <p className="text-xs opacity-40 p-3">沒有符合條件的字體</p>
+        )}
+        {visible.map(entry => {
+          const isLoaded = loadedIds.includes(entry.id);
+          const { family, subfamily, version, designer, license, glyphCount } = entry.metadata;
+          return (
+            <div key={entry.id} className="group p-3 rounded-xl border bg-white/50 border-[#141414]/5 space-y-2">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{family || entry.fileName} {subfamily}</p>
+                  <p className="text-[10px] font-mono opacity-40 truncate">{entry.fileName}</p>
+                </div>
+                <button
+                  onClick={() => onLoad([entry.id])}
+                  disabled={isLoaded}
+                  className="shrink-0 flex items-center gap-1 text-[10px] px-2 py-1 rounded-lg bg-[#141414] text-white disabled:bg-[#141414]/10 disabled:text-[#141414]/40 transition-colors"
+                >
+                  <FolderOpen size={12} />
+                  <span>{isLoaded ? '已載入' : '載入'}</span>
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="shrink-0 p-1 opacity-0 group-hover:opacity-100 hover:bg-red-50 hover:text-red-500 rounded-md transition-all"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] opacity-60">
+                <dt className="opacity-60">版本</dt>
+                <dd className="truncate" title={version}>{version || '—'}</dd>
+                <dt className="opacity-60">設計師</dt>
+                <dd className="truncate" title={designer}>{designer || '—'}</dd>
+                <dt className="opacity-60">字形數</dt>
+                <dd>{glyphCount}</dd>
+                <dt className="opacity-60">授權</dt>
+                <dd className="truncate" title={license}>{license || '—'}</dd>
+              </dl>
+
+              <div className="flex flex-wrap items-center gap-1">
+                <Tag size={10} className="opacity-40" />
+                {entry.tags.map(tag => (
+                  <span key={tag} className="flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded bg-[#141414]/5">
+                    {tag}
+                    <button
+                      onClick={() => onTagsChange(entry.id, entry.tags.filter(t => t !== tag))}
+                      className="opacity-40 hover:opacity-100"
+                    >
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  value={tagDrafts[entry.id] ?? ''}
+                  onChange={(e) => setTagDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addTag(entry);
+                  }}
+                  placeholder="+ 標籤"
+                  className="w-16 text-[10px] bg-transparent focus:outline-none"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
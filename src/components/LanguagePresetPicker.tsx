@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef } from 'react';
+import { Languages, FileUp, FileDown, X } from 'lucide-react';
+import { LanguagePreset } from '../lib/presets';
+
+type LanguagePresetPickerProps = {
+  title: string;
+  presets: LanguagePreset[];
+  /** Ids of imported presets, which can be deleted and are included in the export. */
+  customIds: string[];
+  selectedId: string;
+  onSelect: (preset: LanguagePreset) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onDelete: (id: string) => void;
+};
+
+export default function LanguagePresetPicker({ title, presets, customIds, selectedId, onSelect, onImport, onExport, onDelete }: LanguagePresetPickerProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+          <Languages size={14} />
+          <span>{title}</span>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors"
+          >
+            <FileUp size={10} />
+            匯入 JSON
+          </button>
+          <button
+            onClick={onExport}
+            disabled={customIds.length === 0}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase bg-white/50 px-2 py-1 rounded border border-[#141414]/10 hover:bg-white transition-colors disabled:opacity-40"
+          >
+            <FileDown size={10} />
+            匯出 ({customIds.length})
+          </button>
+          <input
+            type="file"
+            ref={importInputRef}
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {presets.map((lang) => {
+          const isSelected = selectedId === lang.id;
+          const isCustom = customIds.includes(lang.id);
+          return (
+            <div key={lang.id} className="relative group">
+              <button
+                onClick={() => onSelect(lang)}
+                className={`w-full p-3 text-sm rounded-xl border transition-all text-left ${
+                  isSelected
+                    ? 'bg-[#141414] text-white border-[#141414]'
+                    : 'bg-white border-[#141414]/10 hover:border-[#141414]/30'
+                }`}
+              >
+                <span className="block truncate">{lang.name}</span>
+                {lang.id !== 'custom' && (
+                  <span className="block text-[10px] font-mono opacity-50">
+                    {lang.script} · {lang.direction.toUpperCase()}{isCustom ? ' · 自訂' : ''}
+                  </span>
+                )}
+              </button>
+              {isCustom && (
+                <button
+                  onClick={() => onDelete(lang.id)}
+                  className="absolute top-1 right-1 p-1 opacity-0 group-hover:opacity-100 hover:bg-red-50 hover:text-red-500 rounded-md transition-all"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { TextAlignment } from '../lib/presets';
+import { SPECIMEN_PADDING } from '../lib/specimen';
+import {
+  SizeTemplate,
+  DEFAULT_TEMPLATE_BACKGROUND,
+  TEMPLATE_MIN_DIMENSION,
+  TEMPLATE_MAX_DIMENSION,
+  parseSizeTemplate,
+} from '../lib/sizeTemplates';
+
+type SizeTemplateEditorProps = {
+  template: SizeTemplate;
+  onSave: (template: SizeTemplate) => void;
+  onCancel: () => void;
+};
+
+// 版面類型對應 ImageSize 的 kind 與 singleLine
+const LAYOUT_OPTIONS = [
+  { id: 'paragraph', label: '多行字樣' },
+  { id: 'single', label: '單行字樣' },
+  { id: 'waterfall', label: '階梯字樣' },
+  { id: 'comparison', label: '字重比較' },
+  { id: 'charmap', label: '字元表' },
+  { id: 'kerning', label: '字距校樣' },
+] as const;
+
+type LayoutOption = (typeof LAYOUT_OPTIONS)[number]['id'];
+
+const ALIGN_OPTIONS: { id: TextAlignment; label: string }[] = [
+  { id: 'start', label: '起始' },
+  { id: 'center', label: '置中' },
+  { id: 'end', label: '結尾' },
+];
+
+// 可固定的排版參數：勾選後匯出時不再套用側欄的調整值
+const FIXED_FIELDS = [
+  { key: 'fixedFontSize', label: '固定字級 (px)', fallback: 32, step: 1 },
+  { key: 'fixedLineHeight', label: '固定行高', fallback: 1.2, step: 0.1 },
+  { key: 'fixedLetterSpacing', label: '固定字距 (px)', fallback: 0, step: 1 },
+] as const;
+
+const getLayout = (template: SizeTemplate): LayoutOption => {
+  if (template.kind === 'waterfall' || template.kind === 'comparison' || template.kind === 'charmap' || template.kind === 'kerning') return template.kind;
+  return template.singleLine ? 'single' : 'paragraph';
+};
+
+const inputClassName = 'w-full p-2 bg-white rounded-lg border border-[#141414]/10 focus:outline-none focus:ring-2 focus:ring-[#141414]/20 text-xs';
+
+export default function SizeTemplateEditor({ template, onSave, onCancel }: SizeTemplateEditorProps) {
+  const [draft, setDraft] = useState<SizeTemplate>(template);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<SizeTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const setLayout = (layout: LayoutOption) => update({
+    kind: layout === 'waterfall' || layout === 'comparison' || layout === 'charmap' || layout === 'kerning' ? layout : 'text',
+    singleLine: layout === 'single' ? true : undefined,
+  });
+
+  const save = () => {
+    try {
+      onSave(parseSizeTemplate(draft));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-5 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+        <Settings2 size={14} />
+        <span>編輯尺寸範本</span>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => update({ label: e.target.value })}
+          placeholder="範本名稱"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={draft.description ?? ''}
+          onChange={(e) => update({ description: e.target.value || undefined })}
+          placeholder="說明（選填）"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(['width', 'height'] as const).map(key => (
+          <div key={key} className="space-y-1">
+            <label className="text-[10px] font-mono uppercase opacity-40">{key === 'width' ? '寬度 (px)' : '高度 (px)'}</label>
+            <input
+              type="number"
+              min={TEMPLATE_MIN_DIMENSION}
+              max={TEMPLATE_MAX_DIMENSION}
+              value={draft[key]}
+              onChange={(e) => update({ [key]: Math.round(Number(e.target.value) || 0) })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-mono uppercase opacity-40">版面</label>
+        <div className="grid grid-cols-2 gap-2">
+          {LAYOUT_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setLayout(option.id)}
+              className={`py-2 rounded-xl text-xs font-medium transition-all ${
+                getLayout(draft) === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {FIXED_FIELDS.map(({ key, label, fallback, step }) => {
+          const value = draft[key];
+          return (
+            <div key={key} className="flex items-center gap-2">
+              <label className="flex flex-1 items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={value !== undefined}
+                  onChange={(e) => update({ [key]: e.target.checked ? fallback : undefined })}
+                  className="accent-[#141414]"
+                />
+                {label}
+              </label>
+              <input
+                type="number"
+                step={step}
+                value={value ?? ''}
+                disabled={value === undefined}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                className={`${inputClassName} w-24 disabled:opacity-40`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className="text-[10px] font-mono uppercase opacity-40">左右內距 (px)</label>
+          <input
+            type="number"
+            min="0"
+            value={draft.padding ?? SPECIMEN_PADDING}
+            onChange={(e) => update({ padding: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-mono uppercase opacity-40">上下內距 (px)</label>
+          <input
+            type="number"
+            min="0"
+            value={draft.verticalPadding ?? 0}
+            onChange={(e) => update({ verticalPadding: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-mono uppercase opacity-40">背景</label>
+          <input
+            type="color"
+            value={draft.background ?? DEFAULT_TEMPLATE_BACKGROUND}
+            onChange={(e) => update({ background: e.target.value })}
+            className="h-[34px] w-full rounded-lg border border-[#141414]/10 bg-white"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-mono uppercase opacity-40">對齊</label>
+        <div className="flex gap-2">
+          {ALIGN_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => update({ textAlign: option.id })}
+              className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${
+                (draft.textAlign ?? 'start') === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          className="flex-1 py-2 rounded-xl text-xs font-medium bg-[#141414] text-white hover:bg-[#141414]/90 transition-colors"
+        >
+          儲存範本
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2 rounded-xl text-xs font-medium bg-white border border-[#141414]/10 hover:border-[#141414]/30 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </section>
+  );
+}
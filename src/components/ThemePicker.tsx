@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Palette } from 'lucide-react';
+import { SpecimenTheme, SpecimenBackground, THEME_PRESETS } from '../lib/theme';
+
+type ThemePickerProps = {
+  theme: SpecimenTheme;
+  onChange: (theme: SpecimenTheme) => void;
+};
+
+type BackgroundMode = 'size' | SpecimenBackground['type'];
+
+const BACKGROUND_OPTIONS: { id: BackgroundMode; label: string }[] = [
+  { id: 'size', label: '依尺寸' },
+  { id: 'solid', label: '純色' },
+  { id: 'gradient', label: '漸層' },
+  { id: 'transparent', label: '透明' },
+];
+
+const labelClassName = 'text-[10px] font-mono uppercase opacity-40';
+
+const ColorField = ({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) => (
+  <div className="space-y-1">
+    <label className={labelClassName}>{label}</label>
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-8 h-8 rounded border border-[#141414]/10 bg-white cursor-pointer"
+      />
+      <span className="text-[10px] font-mono opacity-60">{value}</span>
+    </div>
+  </div>
+);
+
+export default function ThemePicker({ theme, onChange }: ThemePickerProps) {
+  const { background } = theme;
+  const mode: BackgroundMode = background?.type ?? 'size';
+
+  const update = (changes: Partial<SpecimenTheme>) => onChange({ ...theme, ...changes });
+
+  // 切換背景模式時沿用目前的顏色，避免每次切換都重選
+  const setMode = (next: BackgroundMode) => {
+    const color = background?.type === 'solid' ? background.color : background?.type === 'gradient' ? background.from : '#ffffff';
+    if (next === 'size') update({ background: undefined });
+    else if (next === 'solid') update({ background: { type: 'solid', color } });
+    else if (next === 'gradient') update({ background: { type: 'gradient', from: color, to: '#d4d4d4', angle: 90 } });
+    else update({ background: { type: 'transparent' } });
+  };
+
+  return (
+    <section className="p-6 bg-white rounded-3xl shadow-sm border border-[#141414]/5 space-y-5">
+      <div className="flex items-center gap-2 text-xs font-mono uppercase opacity-50">
+        <Palette size={14} />
+        <span>配色</span>
+      </div>
+
+      <div className="flex gap-2">
+        {THEME_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.theme)}
+            className={`flex-1 py-2 rounded-xl text-xs font-medium transition-all ${
+              theme === preset.theme ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <ColorField label="文字顏色" value={theme.foreground} onChange={(foreground) => update({ foreground })} />
+
+      <div className="space-y-2">
+        <label className={labelClassName}>背景</label>
+        <div className="grid grid-cols-4 gap-1">
+          {BACKGROUND_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              className={`py-2 rounded-xl text-xs font-medium transition-all ${
+                mode === option.id ? 'bg-[#141414] text-white' : 'bg-white border border-[#141414]/10 hover:border-[#141414]/30'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {background?.type === 'solid' && (
+        <ColorField label="背景顏色" value={background.color} onChange={(color) => update({ background: { ...background, color } })} />
+      )}
+
+      {background?.type === 'gradient' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <ColorField label="起始顏色" value={background.from} onChange={(from) => update({ background: { ...background, from } })} />
+            <ColorField label="結束顏色" value={background.to} onChange={(to) => update({ background: { ...background, to } })} />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <label className={labelClassName}>角度</label>
+              <span className="text-[10px] font-mono opacity-60">{background.angle}°</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="360"
+              step="15"
+              value={background.angle}
+              onChange={(e) => update({ background: { ...background, angle: Number(e.target.value) } })}
+              className="w-full accent-[#141414]"
+            />
+          </div>
+        </div>
+      )}
+
+      {background?.type === 'transparent' && (
+        <div className="space-y-2">
+          <ColorField label="JPG 底色" value={theme.matte} onChange={(matte) => update({ matte })} />
+          <p className="text-[10px] opacity-50">JPG 不支援透明，輸出時以此顏色填滿背景；PNG、SVG 與 PDF 保留透明。</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 瀏覽器端持久化字體庫（IndexedDB），保存字體檔與 name table 資訊，重新整理後可再次載入
+
+import { FontMetadata } from './lib/fontMetadata';
+import { createStoreRunner } from './indexedDb';
+
+export type LibraryEntry = {
+  id: string;
+  fileName: string;
+  data: ArrayBuffer;
+  metadata: FontMetadata;
+  tags: string[];
+  addedAt: number;
+  lastUsedAt: number;
+};
+
+// 列表不保留字體檔本體，需要時再以 getLibraryFont 讀取
+export type LibrarySummary = Omit<LibraryEntry, 'data'>;
+
+const DB_NAME = 'hyfont-library';
+const DB_VERSION = 1;
+const STORE = 'fonts';
+
+const runInStore = createStoreRunner(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runInStore(STORE, mode, run);
+
+/** Content hash used as the library id, so re-uploading a file updates its existing entry. */
+export const getFontId = async (data: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `font-${hex.slice(0, 16)}`;
+};
+
+export const listLibraryFonts = async (): Promise<LibrarySummary[]> => {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries
+    .map(({ data, ...summary }) => summary)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const getLibraryFont = (id: string) =>
+  withStore<LibraryEntry | undefined>('readonly', store => store.get(id));
+
+export const saveLibraryFont = (entry: LibraryEntry) =>
+  withStore('readwrite', store => store.put(entry));
+
+export const updateLibraryFont = async (id: string, patch: Partial<Omit<LibraryEntry, 'id'>>) => {
+  const entry = await getLibraryFont(id);
+  if (!entry) return;
+  await saveLibraryFont({ ...entry, ...patch });
+};
+
+export const deleteLibraryFont = (id: string) =>
+  withStore('readwrite', store => store.delete(id));
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Node 專用：以 @napi-rs/canvas 取代瀏覽器 canvas，供 CLI 與渲染服務共用
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Canvas, Image, createCanvas } from '@napi-rs/canvas';
+import * as opentype from 'opentype.js';
+import { LoadedFont, SpecimenSettings, CollageOptions, DEFAULT_COLLAGE_OPTIONS, drawSingleFont, drawCollage, drawWeightComparison, getSpecimenPages, getCollageSize, getCollageExportSize } from '../lib/specimen';
+import { ExportFormat, createImagePdf, getScaledSize } from '../lib/export';
+import { VectorDrawing, createVectorContext, encodeVector, encodeVectorPages, isVectorFormat } from '../lib/vector';
+import { CopyrightProfile, loadCopyrightStyle } from '../lib/copyright';
+import { readTableTags } from '../lib/fontInspector';
+
+export const parseFontBuffer = (buffer: Buffer, fileName: string, id = fileName.replace(/\.[^/.]+$/, '')): LoadedFont => {
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  return { id, font: opentype.parse(arrayBuffer), fontFamily: id, fileName, tableTags: readTableTags(arrayBuffer) };
+};
+
+export const loadFontFile = async (filePath: string, id?: string) =>
+  parseFontBuffer(await readFile(filePath), path.basename(filePath), id);
+
+export const createHeadlessCanvas = (width: number, height: number) =>
+  createCanvas(width, height) as unknown as HTMLCanvasElement;
+
+// 以 src 字串載入，向量輸出才能取回原始的 data URL
+const loadHeadlessImage = async (src: string) => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image as unknown as CanvasImageSource;
+};
+
+export const loadHeadlessCopyright = (profile: CopyrightProfile) => loadCopyrightStyle(profile, loadHeadlessImage);
+
+const getContext = (canvas: Canvas) => canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+
+// 依輸出倍率放大畫布，排版仍以邏輯尺寸繪製
+const createScaledCanvas = (width: number, height: number, scale: number) => {
+  const size = getScaledSize(width, height, scale);
+  const canvas = createCanvas(size.width, size.height);
+  getContext(canvas).scale(scale, scale);
+  return canvas;
+};
+
+// 無瀏覽器字體堆疊，一律以字形路徑模式繪製
+const withGlyphMode = (settings: SpecimenSettings): SpecimenSettings => ({ ...settings, renderMode: 'glyph' });
+
+export const renderSingleFont = (font: LoadedFont, settings: SpecimenSettings, width: number, height: number, scale = 1) => {
+  const canvas = createScaledCanvas(width, height, scale);
+  drawSingleFont(getContext(canvas), font, withGlyphMode(settings), width, height);
+  return canvas;
+};
+
+export const renderCollage = (
+  fonts: LoadedFont[],
+  settings: SpecimenSettings,
+  cellWidth: number,
+  cellHeight: number,
+  options: CollageOptions = DEFAULT_COLLAGE_OPTIONS,
+  exportScale = 1
+) => {
+  const { totalWidth, totalHeight, scale } = getCollageExportSize(fonts.length, cellWidth, cellHeight, options, exportScale);
+  const canvas = createCanvas(Math.round(totalWidth), Math.round(totalHeight));
+  drawCollage(getContext(canvas), fonts, withGlyphMode(settings), totalWidth, totalHeight, cellWidth, cellHeight, scale, options);
+  return canvas;
+};
+
+export const encodeCanvas = (canvas: Canvas, format: ExportFormat, scale = 1): Buffer => {
+  if (format === 'jpg') return canvas.toBuffer('image/jpeg', 90);
+  const png = canvas.toBuffer('image/png');
+  if (format === 'png') return png;
+  const pdf = createImagePdf(`data:image/png;base64,${png.toString('base64')}`, canvas.width, canvas.height, scale);
+  return Buffer.from(pdf.output('arraybuffer'));
+};
+
+/**
+ * Renders one specimen straight to file bytes; PDF and SVG are written as glyph outlines rather than a raster.
+ * `scale` multiplies the pixel size of rasters and the DPI of PDFs without changing the layout.
+ */
+export const renderSingleFontFile = (
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number,
+  format: ExportFormat,
+  scale = 1
+) => {
+  if (!isVectorFormat(format)) return encodeCanvas(renderSingleFont(font, settings, width, height, scale), format, scale);
+  const { context, drawing } = createVectorContext(width, height);
+  drawSingleFont(context, font, withGlyphMode(settings), width, height);
+  return Buffer.from(encodeVector(drawing, format, createHeadlessCanvas, scale));
+};
+
+export const renderCollageFile = (
+  fonts: LoadedFont[],
+  settings: SpecimenSettings,
+  cellWidth: number,
+  cellHeight: number,
+  format: ExportFormat,
+  options: CollageOptions = DEFAULT_COLLAGE_OPTIONS,
+  exportScale = 1
+) => {
+  if (!isVectorFormat(format)) {
+    // 超過像素上限時倍率會降低，PDF 頁面尺寸依實際倍率換算
+    const { scale } = getCollageExportSize(fonts.length, cellWidth, cellHeight, options, exportScale);
+    return encodeCanvas(renderCollage(fonts, settings, cellWidth, cellHeight, options, exportScale), format, scale);
+  }
+  // 向量檔不受像素上限限制，以邏輯尺寸記錄
+  const { width: totalWidth, height: totalHeight } = getCollageSize(fonts.length, cellWidth, cellHeight, options);
+  const { context, drawing } = createVectorContext(Math.round(totalWidth), Math.round(totalHeight));
+  drawCollage(context, fonts, withGlyphMode(settings), totalWidth, totalHeight, cellWidth, cellHeight, 1, options);
+  return Buffer.from(encodeVector(drawing, format, createHeadlessCanvas, exportScale));
+};
+
+/** A weight comparison of every font in one file. */
+export const renderComparisonFile = (
+  fonts: LoadedFont[],
+  settings: SpecimenSettings,
+  width: number,
+  height: number,
+  format: ExportFormat,
+  scale = 1
+) => {
+  if (!isVectorFormat(format)) {
+    const canvas = createScaledCanvas(width, height, scale);
+    drawWeightComparison(getContext(canvas), fonts, withGlyphMode(settings), width, height);
+    return encodeCanvas(canvas, format, scale);
+  }
+  const { context, drawing } = createVectorContext(width, height);
+  drawWeightComparison(context, fonts, withGlyphMode(settings), width, height);
+  return Buffer.from(encodeVector(drawing, format, createHeadlessCanvas, scale));
+};
+
+/** Lets queued I/O (HTTP requests, progress output) run between pages and fonts of a long render. */
+export const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * Every page of a paged specimen (character map, kerning proof): one file per page, or a single multi-page PDF.
+ * Yields to the event loop after each page, since a long proof can take tens of seconds.
+ */
+export const renderSpecimenPageFiles = async (
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number,
+  format: ExportFormat,
+  scale = 1
+): Promise<Buffer[]> => {
+  const pageCount = getSpecimenPages(font, settings, width, height);
+  const pageSettings = (page: number) => withGlyphMode({ ...settings, page });
+  if (!isVectorFormat(format)) {
+    const files: Buffer[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      files.push(encodeCanvas(renderSingleFont(font, pageSettings(page), width, height, scale), format, scale));
+      await yieldToEventLoop();
+    }
+    return files;
+  }
+  const drawings: VectorDrawing[] = [];
+  for (let page = 0; page < pageCount; page++) {
+    const { context, drawing } = createVectorContext(width, height);
+    drawSingleFont(context, font, pageSettings(page), width, height);
+    drawings.push(drawing);
+    await yieldToEventLoop();
+  }
+  return encodeVectorPages(drawings, format, createHeadlessCanvas, scale).map(data => Buffer.from(data));
+};
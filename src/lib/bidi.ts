@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 文字方向與雙向排版 (bidi)
+// canvas 模式由瀏覽器執行完整的 Unicode 雙向演算法；字形路徑模式以此處的簡化版本
+// 將一行文字切成方向一致的片段並依視覺順序排列
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type BidiRun = {
+  text: string;
+  direction: TextDirection;
+};
+
+const RTL_CHAR = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}\p{Script=Hanifi_Rohingya}]/u;
+const LETTER = /\p{L}/u;
+const DIGIT = /\p{Nd}/u;
+const MARK = /\p{M}/u;
+
+type CharClass = 'L' | 'R' | 'EN' | 'N';
+
+const classify = (char: string): CharClass => {
+  if (RTL_CHAR.test(char) && !DIGIT.test(char)) return 'R';
+  if (LETTER.test(char)) return 'L';
+  if (DIGIT.test(char)) return 'EN';
+  return 'N';
+};
+
+/** Direction of the first strong character, like `dir="auto"`; text without letters is left-to-right. */
+export const getTextDirection = (text: string): TextDirection => {
+  for (const char of text) {
+    const type = classify(char);
+    if (type === 'R') return 'rtl';
+    if (type === 'L') return 'ltr';
+  }
+  return 'ltr';
+};
+
+/**
+ * Splits one line into same-direction runs in visual (left-to-right) order.
+ * A reduced Unicode bidi algorithm: embedding levels 0–2, numbers stay left-to-right inside
+ * right-to-left text, neutrals take the direction of matching neighbours, otherwise the base direction.
+ */
+export const getBidiRuns = (text: string, baseDirection: TextDirection): BidiRun[] => {
+  const chars = Array.from(text);
+  if (chars.length === 0) return [];
+
+  const baseLevel = baseDirection === 'rtl' ? 1 : 0;
+  const types: CharClass[] = [];
+  let previousStrong: CharClass = baseDirection === 'rtl' ? 'R' : 'L';
+  for (const char of chars) {
+    // 組合符號 (如阿拉伯文母音、泰文聲調) 跟隨前一字元
+    let type = MARK.test(char) && types.length > 0 ? types[types.length - 1] : classify(char);
+    if (type === 'L' || type === 'R') previousStrong = type;
+    // 數字在 RTL 語境中與 RTL 文字同向參與中性字元判定，但本身維持由左至右
+    if (type === 'EN' && previousStrong === 'L') type = 'L';
+    types.push(type);
+  }
+
+  // 中性字元：前後強方向一致時沿用，否則採段落方向
+  const strongDirection = (type: CharClass) => (type === 'L' ? 'L' : type === 'N' ? null : 'R');
+  const resolved = types.map((type, i) => {
+    if (type !== 'N') return type;
+    let before: string | null = null;
+    for (let j = i - 1; j >= 0 && !before; j--) before = strongDirection(types[j]);
+    let after: string | null = null;
+    for (let j = i + 1; j < types.length && !after; j++) after = strongDirection(types[j]);
+    before = before ?? (baseLevel ? 'R' : 'L');
+    after = after ?? (baseLevel ? 'R' : 'L');
+    return before === after ? (before as CharClass) : baseLevel ? 'R' : 'L';
+  });
+
+  const levels = resolved.map(type => {
+    if (type === 'R') return 1;
+    if (type === 'EN') return 2;
+    return baseLevel === 1 ? 2 : 0;
+  });
+
+  const runs: (BidiRun & { level: number })[] = [];
+  chars.forEach((char, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.level === levels[i]) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, level: levels[i], direction: levels[i] % 2 ? 'rtl' : 'ltr' });
+    }
+  });
+
+  // 規則 L2：由最高層級到最低的奇數層級，反轉連續的高層級片段
+  const maxLevel = Math.max(...runs.map(run => run.level));
+  const minOddLevel = Math.min(...runs.map(run => (run.level % 2 ? run.level : run.level + 1)));
+  for (let level = maxLevel; level >= minOddLevel; level--) {
+    for (let i = 0; i < runs.length; i++) {
+      if (runs[i].level < level) continue;
+      let end = i;
+      while (end + 1 < runs.length && runs[end + 1].level >= level) end++;
+      runs.splice(i, end - i + 1, ...runs.slice(i, end + 1).reverse());
+      i = end;
+    }
+  }
+
+  return runs.map(({ text, direction }) => ({ text, direction }));
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字元表：依字形順序列出字體的每個字形，格內標示碼位與字形名稱；一頁放不下時分頁
+
+import * as opentype from 'opentype.js';
+import { formatCodePoint } from './coverage';
+
+export type CharmapGlyph = {
+  index: number;
+  glyph: opentype.Glyph;
+  /** Glyph name from the post or CFF table; `gid<index>` when the font has none. */
+  name: string;
+  /** First code point mapped to the glyph by cmap; unencoded glyphs (ligatures, alternates) have none. */
+  unicode?: number;
+};
+
+export type CharmapLayout = {
+  columns: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  /** Height of the glyph area at the top of each cell; the two label lines sit below it. */
+  glyphHeight: number;
+  perPage: number;
+};
+
+export const CHARMAP_LABEL_SIZE = 10;
+export const CHARMAP_LABEL_LINE = CHARMAP_LABEL_SIZE * 1.4;
+// 格子至少要放得下碼位與較短的字形名稱
+const MIN_CELL_WIDTH = 80;
+
+export const getGlyphCount = (font: opentype.Font): number => font.glyphs.length;
+
+export const getCharmapGlyph = (font: opentype.Font, index: number): CharmapGlyph => {
+  const glyph = font.glyphs.get(index);
+  return { index, glyph, name: glyph.name || `gid${index}`, unicode: glyph.unicode };
+};
+
+/** Grid for the area inside the padding and below the header; glyphs are drawn at `fontSize`. */
+export const getCharmapLayout = (width: number, height: number, fontSize: number): CharmapLayout => {
+  const columns = Math.max(1, Math.floor(width / Math.max(MIN_CELL_WIDTH, fontSize * 2)));
+  const cellWidth = width / columns;
+  const glyphHeight = fontSize * 1.6;
+  const cellHeight = glyphHeight + CHARMAP_LABEL_LINE * 2;
+  const rows = Math.max(1, Math.floor(height / cellHeight));
+  return { columns, rows, cellWidth, cellHeight, glyphHeight, perPage: columns * rows };
+};
+
+export const getCharmapPageCount = (glyphCount: number, layout: CharmapLayout) =>
+  Math.max(1, Math.ceil(glyphCount / layout.perPage));
+
+/** Glyph indices on a page, clamped to the last page. */
+export const getCharmapPageRange = (glyphCount: number, layout: CharmapLayout, page: number) => {
+  const last = getCharmapPageCount(glyphCount, layout) - 1;
+  const start = Math.min(Math.max(0, page), last) * layout.perPage;
+  return { start, end: Math.min(glyphCount, start + layout.perPage) };
+};
+
+export const formatGlyphCodePoint = (glyph: CharmapGlyph) =>
+  glyph.unicode === undefined ? '-' : formatCodePoint(glyph.unicode);
+
+// 標註以固定字寬估算截斷，向量輸出無法量測文字寬度
+export const truncateLabel = (text: string, maxWidth: number) => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (CHARMAP_LABEL_SIZE * 0.6)));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(1, maxChars - 3))}...`;
+};
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 著作資訊設定檔：作品名稱、作者與著作權人，以及位置、字體、字級、透明度、標誌圖片與平鋪浮水印
+
+import { TextDirection } from './bidi';
+
+// auto：依文字方向放在行尾一側的上方角落（從右至左的文字放左上，其餘放右上）
+export type CopyrightPosition = 'auto' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// text：平鋪浮水印文字；logo：平鋪設定檔的標誌圖片
+export type WatermarkSource = 'text' | 'logo';
+
+export type CopyrightWatermark = {
+  source: WatermarkSource;
+  text: string;
+  /** Font size of the text, or height of the logo, in px. */
+  size: number;
+  opacity: number;
+  /** Rotation in degrees, clockwise. */
+  angle: number;
+  /** Distance between tile centres, in px. */
+  spacing: number;
+};
+
+export type CopyrightProfile = {
+  id: string;
+  name: string;
+  /** Work name line; `{font}` is replaced with the font file name without its extension. */
+  workName: string;
+  author: string;
+  owner: string;
+  position: CopyrightPosition;
+  /** CSS font family of the block, e.g. `sans-serif` or `"Noto Sans TC", sans-serif`. */
+  fontFamily: string;
+  fontSize: number;
+  opacity: number;
+  /** PNG or JPEG data URL drawn beside the block. */
+  logo?: string;
+  watermark?: CopyrightWatermark;
+};
+
+/** A profile with its logo decoded, ready to draw synchronously. */
+export type CopyrightStyle = {
+  profile: CopyrightProfile;
+  logo?: CanvasImageSource;
+};
+
+export type CopyrightArea = { x: number; y: number; width: number; height: number };
+
+export const COPYRIGHT_POSITIONS: CopyrightPosition[] = ['auto', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+export const WATERMARK_SOURCES: WatermarkSource[] = ['text', 'logo'];
+
+export const WORK_NAME_PLACEHOLDER = '{font}';
+
+export const DEFAULT_COPYRIGHT_FONT_SIZE = 10;
+
+export const DEFAULT_COPYRIGHT_PROFILE: CopyrightProfile = {
+  id: 'default',
+  name: '北京新美互通科技有限公司',
+  workName: WORK_NAME_PLACEHOLDER,
+  author: '北京新美互通科技有限公司',
+  owner: '北京新美互通科技有限公司',
+  position: 'auto',
+  fontFamily: 'sans-serif',
+  fontSize: DEFAULT_COPYRIGHT_FONT_SIZE,
+  opacity: 1,
+};
+
+export const DEFAULT_WATERMARK: CopyrightWatermark = {
+  source: 'text',
+  text: '',
+  size: 24,
+  opacity: 0.08,
+  angle: -30,
+  spacing: 240,
+};
+
+export const DEFAULT_COPYRIGHT_STYLE: CopyrightStyle = { profile: DEFAULT_COPYRIGHT_PROFILE };
+
+export class CopyrightFormatError extends Error {}
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const LOGO_PATTERN = /^data:image\/(png|jpeg);base64,/;
+
+export const createProfileId = () => `copyright-${Date.now().toString(36)}`;
+
+/**
+ * Validates a profile read from JSON. `id` and `name` are required; omitted fields
+ * fall back to the built-in profile, so an older export keeps working.
+ */
+export const parseCopyrightProfile = (input: unknown): CopyrightProfile => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new CopyrightFormatError('A copyright profile must be a JSON object');
+  }
+  const value = input as Record<string, unknown>;
+
+  const { id, name } = value;
+  if (typeof id !== 'string' || !PROFILE_ID_PATTERN.test(id)) {
+    throw new CopyrightFormatError('"id" must use lowercase letters, digits and hyphens');
+  }
+  const fail = (message: string): never => {
+    throw new CopyrightFormatError(`Copyright profile "${id}": ${message}`);
+  };
+  if (typeof name !== 'string' || name.trim().length === 0) fail('needs a "name"');
+
+  const text = (source: Record<string, unknown>, key: string, fallback: string) => {
+    const field = source[key] ?? fallback;
+    if (typeof field !== 'string') fail(`"${key}" must be a string`);
+    return field as string;
+  };
+  const number = (source: Record<string, unknown>, key: string, fallback: number, isValid: (n: number) => boolean, rule: string) => {
+    const field = source[key] ?? fallback;
+    if (typeof field !== 'number' || !Number.isFinite(field) || !isValid(field)) fail(`"${key}" must be ${rule}`);
+    return field as number;
+  };
+  const isPositive = (n: number) => n > 0;
+  const isOpacity = (n: number) => n >= 0 && n <= 1;
+
+  const position = value.position ?? DEFAULT_COPYRIGHT_PROFILE.position;
+  if (!COPYRIGHT_POSITIONS.includes(position as CopyrightPosition)) {
+    fail(`"position" must be one of ${COPYRIGHT_POSITIONS.join(', ')}`);
+  }
+  const { logo } = value;
+  if (logo !== undefined && (typeof logo !== 'string' || !LOGO_PATTERN.test(logo))) {
+    fail('"logo" must be a PNG or JPEG data URL');
+  }
+
+  let watermark: CopyrightWatermark | undefined;
+  if (value.watermark !== undefined) {
+    if (typeof value.watermark !== 'object' || value.watermark === null) fail('"watermark" must be an object');
+    const source = value.watermark as Record<string, unknown>;
+    const kind = source.source ?? DEFAULT_WATERMARK.source;
+    if (!WATERMARK_SOURCES.includes(kind as WatermarkSource)) {
+      fail(`"watermark.source" must be one of ${WATERMARK_SOURCES.join(', ')}`);
+    }
+    if (kind === 'logo' && logo === undefined) fail('a logo watermark needs a "logo"');
+    watermark = {
+      source: kind as WatermarkSource,
+      text: text(source, 'text', DEFAULT_WATERMARK.text),
+      size: number(source, 'size', DEFAULT_WATERMARK.size, isPositive, 'a positive number'),
+      opacity: number(source, 'opacity', DEFAULT_WATERMARK.opacity, isOpacity, 'between 0 and 1'),
+      angle: number(source, 'angle', DEFAULT_WATERMARK.angle, () => true, 'a number'),
+      spacing: number(source, 'spacing', DEFAULT_WATERMARK.spacing, isPositive, 'a positive number'),
+    };
+  }
+
+  return {
+    id,
+    name: (name as string).trim(),
+    workName: text(value, 'workName', DEFAULT_COPYRIGHT_PROFILE.workName),
+    author: text(value, 'author', ''),
+    owner: text(value, 'owner', ''),
+    position: position as CopyrightPosition,
+    fontFamily: text(value, 'fontFamily', DEFAULT_COPYRIGHT_PROFILE.fontFamily).trim() || DEFAULT_COPYRIGHT_PROFILE.fontFamily,
+    fontSize: number(value, 'fontSize', DEFAULT_COPYRIGHT_PROFILE.fontSize, isPositive, 'a positive number'),
+    opacity: number(value, 'opacity', DEFAULT_COPYRIGHT_PROFILE.opacity, isOpacity, 'between 0 and 1'),
+    logo: logo as string | undefined,
+    watermark,
+  };
+};
+
+/** Decodes the profile's logo with the platform's image loader. */
+export const loadCopyrightStyle = async (
+  profile: CopyrightProfile,
+  loadImage: (src: string) => Promise<CanvasImageSource>
+): Promise<CopyrightStyle> => ({
+  profile,
+  logo: profile.logo ? await loadImage(profile.logo) : undefined,
+});
+
+/** The block's lines; empty fields are left out. */
+export const getCopyrightLines = (fontName: string, profile: CopyrightProfile = DEFAULT_COPYRIGHT_PROFILE) => {
+  const workName = profile.workName.split(WORK_NAME_PLACEHOLDER).join(fontName.replace(/\.[^/.]+$/, ''));
+  return [
+    workName && `作品名称：${workName}`,
+    profile.author && `作者：${profile.author}`,
+    profile.owner && `著作权人：${profile.owner}`,
+  ].filter(Boolean);
+};
+
+const getImageSize = (image: CanvasImageSource) => {
+  const { width, height } = image as { width: number; height: number };
+  return { width: Number(width) || 1, height: Number(height) || 1 };
+};
+
+const resolvePosition = (position: CopyrightPosition, direction: TextDirection) => {
+  if (position === 'auto') return { isRight: direction !== 'rtl', isBottom: false };
+  return { isRight: position.endsWith('right'), isBottom: position.startsWith('bottom') };
+};
+
+export type CopyrightBlockOptions = {
+  /** Overrides the profile's font size, e.g. to scale with a collage cell. */
+  fontSize?: number;
+  bold?: boolean;
+  color?: string;
+};
+
+/**
+ * Draws the copyright lines in a corner of `area`, with the logo (if any) on the outer edge.
+ * The logo is as tall as the text block.
+ */
+export const drawCopyrightInfo = (
+  ctx: CanvasRenderingContext2D,
+  area: CopyrightArea,
+  fontName: string,
+  direction: TextDirection,
+  style: CopyrightStyle = DEFAULT_COPYRIGHT_STYLE,
+  options: CopyrightBlockOptions = {}
+) => {
+  const { profile, logo } = style;
+  const lines = getCopyrightLines(fontName, profile);
+  if (lines.length === 0 && !logo) return;
+
+  const fontSize = options.fontSize ?? profile.fontSize;
+  const padding = 8;
+  const lineHeight = fontSize * 1.6;
+  const blockHeight = Math.max(1, lines.length) * lineHeight;
+  const { isRight, isBottom } = resolvePosition(profile.position, direction);
+  const top = isBottom ? area.y + area.height - padding - blockHeight : area.y + padding;
+
+  ctx.save();
+  ctx.globalAlpha *= profile.opacity;
+
+  let edge = isRight ? area.x + area.width - padding : area.x + padding;
+  if (logo) {
+    const { width, height } = getImageSize(logo);
+    const logoWidth = (width / height) * blockHeight;
+    ctx.drawImage(logo, isRight ? edge - logoWidth : edge, top, logoWidth, blockHeight);
+    edge += (isRight ? -1 : 1) * (logoWidth + padding);
+  }
+
+  ctx.fillStyle = options.color ?? '#000000';
+  (ctx as any).letterSpacing = '0px';
+  ctx.font = `${options.bold ? 'bold ' : ''}${fontSize}px ${profile.fontFamily}`;
+  ctx.textAlign = isRight ? 'right' : 'left';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, edge, top + index * lineHeight);
+  });
+
+  ctx.restore();
+};
+
+/**
+ * Tiles the profile's watermark over `area`, alternate rows offset by half a tile.
+ * Text watermarks fall back to the owner's name when no text is set.
+ */
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  area: CopyrightArea,
+  style: CopyrightStyle = DEFAULT_COPYRIGHT_STYLE,
+  color = '#000000'
+) => {
+  const { profile, logo } = style;
+  const { watermark } = profile;
+  if (!watermark) return;
+  const text = watermark.text || profile.owner;
+  if (watermark.source === 'logo' ? !logo : !text) return;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.clip();
+  ctx.globalAlpha *= watermark.opacity;
+  ctx.fillStyle = color;
+  (ctx as any).letterSpacing = '0px';
+  ctx.font = `${watermark.size}px ${profile.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const step = watermark.spacing;
+  // 旋轉後的圖塊可能伸出邊界，四周各多鋪一格
+  const rows = Math.ceil(area.height / step) + 2;
+  const cols = Math.ceil(area.width / step) + 2;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = area.x + (col - 0.5 + (row % 2) * 0.5) * step;
+      const y = area.y + (row - 0.5) * step;
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate((watermark.angle * Math.PI) / 180);
+      if (watermark.source === 'logo' && logo) {
+        const { width, height } = getImageSize(logo);
+        const logoWidth = (width / height) * watermark.size;
+        ctx.drawImage(logo, -logoWidth / 2, -watermark.size / 2, logoWidth, watermark.size);
+      } else {
+        ctx.fillText(text, 0, 0);
+      }
+      ctx.restore();
+    }
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as opentype from 'opentype.js';
+
+export type PresetCoverage = {
+  presetId: string;
+  missing: number[];
+  /** Unique renderable code points in the preset. */
+  total: number;
+};
+
+// Line breaks and other control characters never reach the canvas as glyphs.
+const isRenderable = (codePoint: number) => codePoint >= 0x20 && codePoint !== 0x7f;
+
+/**
+ * Returns the unique code points in `text` that have no glyph in `font`.
+ * `font.hasChar` cannot be used here: the cmap encoding returns glyph 0
+ * (.notdef) instead of null for unmapped characters.
+ */
+export const getMissingCodePoints = (font: opentype.Font, text: string): number[] => {
+  const missing = new Set<number>();
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number;
+    if (!isRenderable(codePoint) || missing.has(codePoint)) continue;
+    if (!(font.charToGlyphIndex(char) > 0)) {
+      missing.add(codePoint);
+    }
+  }
+  return Array.from(missing);
+};
+
+export const getFontCoverage = (
+  font: opentype.Font,
+  presets: { id: string; content: string }[]
+): PresetCoverage[] =>
+  presets
+    .filter(preset => preset.content.length > 0)
+    .map(preset => ({
+      presetId: preset.id,
+      missing: getMissingCodePoints(font, preset.content),
+      total: new Set(Array.from(preset.content).filter(char => isRenderable(char.codePointAt(0) as number))).size,
+    }));
+
+// 缺少過半字形視為字體未涵蓋該文字，與個別缺字分開提示
+export const isPresetUnsupported = (coverage: PresetCoverage) => coverage.missing.length > coverage.total / 2;
+
+export const formatCodePoint = (codePoint: number) =>
+  `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { jsPDF } from 'jspdf';
+import { VariationSettings } from './variations';
+import { FeatureSettings } from './features';
+import { AutoFitMode } from './specimen';
+import { SpecimenTheme } from './theme';
+
+export type ExportFormat = 'png' | 'pdf' | 'jpg' | 'svg';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['png', 'jpg', 'pdf', 'svg'];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  pdf: 'application/pdf',
+  svg: 'image/svg+xml',
+};
+
+export const getExportMimeType = (format: ExportFormat) => MIME_TYPES[format];
+
+// 輸出倍率：排版維持邏輯尺寸，只提高像素密度。1× 視為 72 DPI，指定 DPI 時換算為倍率
+export const BASE_DPI = 72;
+export const EXPORT_SCALES = [1, 2, 3];
+// 上限以 DPI 訂定，涵蓋 300 / 600 DPI 印刷輸出；點陣像素另受 MAX_EXPORT_DIM 限制
+export const MAX_EXPORT_DPI = 600;
+
+export const getScaleForDpi = (dpi: number) => dpi / BASE_DPI;
+
+export const MIN_EXPORT_SCALE = 1;
+export const MAX_EXPORT_SCALE = getScaleForDpi(MAX_EXPORT_DPI);
+
+export const getExportDpi = (scale: number) => Math.round(BASE_DPI * scale);
+
+export const isExportScale = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= MIN_EXPORT_SCALE && value <= MAX_EXPORT_SCALE;
+
+// 點陣輸出的最終像素上限（單邊），超過時瀏覽器無法建立畫布或 toBlob 失敗
+export const MAX_EXPORT_DIM = 16384;
+
+/** The requested scale, lowered when needed so neither side of the scaled raster exceeds MAX_EXPORT_DIM. */
+export const clampExportScale = (width: number, height: number, scale: number) =>
+  Math.min(scale, MAX_EXPORT_DIM / width, MAX_EXPORT_DIM / height);
+
+/** Pixel size of an export: the logical size times the scale, rounded to whole pixels. */
+export const getScaledSize = (width: number, height: number, scale: number) => ({
+  width: Math.round(width * scale),
+  height: Math.round(height * scale),
+});
+
+/** Records the export resolution as XMP (TIFF resolution tags), so print tools see the intended DPI. */
+export const addResolutionMetadata = (pdf: jsPDF, scale: number) => {
+  const dpi = getExportDpi(scale);
+  pdf.addMetadata(
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+      '<rdf:Description rdf:about="" xmlns:tiff="http://ns.adobe.com/tiff/1.0/">' +
+      `<tiff:XResolution>${dpi}/1</tiff:XResolution><tiff:YResolution>${dpi}/1</tiff:YResolution><tiff:ResolutionUnit>2</tiff:ResolutionUnit>` +
+      '</rdf:Description></rdf:RDF></x:xmpmeta>',
+    true
+  );
+};
+
+/** Wraps a rendered PNG data URL in a single-page PDF of its logical size; a scaled raster keeps its extra pixels. */
+export const createImagePdf = (dataUrl: string, width: number, height: number, scale = 1) => {
+  const pageWidth = width / scale;
+  const pageHeight = height / scale;
+  const pdf = new jsPDF({
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+    unit: 'px',
+    format: [pageWidth, pageHeight]
+  });
+  pdf.addImage(dataUrl, 'PNG', 0, 0, pageWidth, pageHeight);
+  addResolutionMetadata(pdf, scale);
+  return pdf;
+};
+
+export const getFontBaseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+/** `name`, or `name-2`, `name-3`… before the extension when `used` already has it; records the result in `used`. */
+export const getUniqueFileName = (name: string, used: Set<string>) => {
+  const extension = name.match(/\.[^/.]+$/)?.[0] ?? '';
+  const base = name.slice(0, name.length - extension.length);
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) unique = `${base}-${n}${extension}`;
+  used.add(unique);
+  return unique;
+};
+
+/** `@2x` for scaled exports, empty at 1×; `WxH` in file names stays the logical size. */
+export const getScaleSuffix = (scale: number) => (scale === 1 ? '' : `@${Number(scale.toFixed(2))}x`);
+
+/** `-p01` for each page of a specimen exported as separate files, zero-padded to the page count. */
+export const getPageSuffix = (page: number, pages: number) =>
+  `-p${String(page + 1).padStart(Math.max(2, String(pages).length), '0')}`;
+
+/** `fontName-WxH-lang.ext`, the naming used for every file in a batch export. */
+export const getExportFileName = (
+  fontFileName: string,
+  width: number,
+  height: number,
+  languageId: string,
+  format: ExportFormat,
+  instanceName?: string,
+  scale = 1
+) => {
+  // 具名實例名稱可能含空白或斜線，轉為檔名安全字元
+  const instance = instanceName ? `-${instanceName.replace(/[^\w-]+/g, '_')}` : '';
+  return `${getFontBaseName(fontFileName)}${instance}-${width}x${height}-${languageId}${getScaleSuffix(scale)}.${format}`;
+};
+
+export type ManifestEntry = {
+  file: string;
+  font: string;
+  width: number;
+  height: number;
+  format: ExportFormat;
+  language: string;
+  text: string;
+  fontSize: number;
+  lineHeight: number;
+  letterSpacing: number;
+  renderMode: string;
+  /** Export scale when above 1×; the file is `width × scale` pixels wide at `72 × scale` DPI. */
+  scale?: number;
+  showCopyright: boolean;
+  /** Id of the copyright profile drawn, when `showCopyright` is on. */
+  copyrightProfile?: string;
+  /** Colours used, when they differ from the default black on the size's background. */
+  theme?: SpecimenTheme;
+  /** Earlier build the file is compared against, for version diff reports. */
+  compareTo?: string;
+  /** 1-based page of a paginated specimen (character map, version diff) that spans several files. */
+  page?: number;
+  /** Named instance for variable-font exports. */
+  instance?: string;
+  variation?: VariationSettings;
+  features?: FeatureSettings;
+  /** Set when `fontSize` / `letterSpacing` were fitted to this font rather than chosen by hand. */
+  autoFit?: AutoFitMode;
+  /** Set when the metric guides are drawn into the file. */
+  metricGuides?: boolean;
+};
+
+export const createManifest = (entries: ManifestEntry[]) =>
+  JSON.stringify({ generatedAt: new Date().toISOString(), files: entries }, null, 2);
+
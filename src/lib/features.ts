@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// OpenType GSUB 功能：列出字體提供的功能標籤，並在字形路徑模式中套用
+// opentype.js 只會自行處理 liga / rlig 與阿拉伯文字形，其餘功能在此以單一、多重、替代與連字查找表套用；
+// 上下文查找表 (type 5 / 6) 不支援，這類功能會標示為無法預覽
+
+import * as opentype from 'opentype.js';
+
+export type FeatureSettings = Record<string, boolean>;
+
+export type FontFeature = {
+  tag: string;
+  label: string;
+  /** Whether browsers enable the feature when nothing is specified. */
+  defaultOn: boolean;
+  /** False when the feature only uses lookup types the glyph renderer cannot apply. */
+  supported: boolean;
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  liga: '標準連字',
+  clig: '上下文連字',
+  dlig: '自選連字',
+  hlig: '歷史連字',
+  calt: '上下文替代',
+  salt: '風格替代',
+  swsh: '花飾字',
+  hist: '歷史字形',
+  titl: '標題字形',
+  smcp: '小型大寫',
+  c2sc: '大寫轉小型大寫',
+  pcap: '小型大寫 (Petite)',
+  c2pc: '大寫轉小型大寫 (Petite)',
+  unic: '單一大小寫',
+  case: '大小寫敏感形式',
+  lnum: '齊線數字',
+  onum: '舊式數字',
+  pnum: '比例數字',
+  tnum: '等寬數字',
+  zero: '斜線零',
+  frac: '分數',
+  afrc: '直式分數',
+  numr: '分子',
+  dnom: '分母',
+  sups: '上標',
+  subs: '下標',
+  sinf: '科學下標',
+  ordn: '序數',
+  ornm: '裝飾符號',
+};
+
+// 文字排版必需或僅供字形選擇介面使用的功能，不提供切換
+const HIDDEN_FEATURES = [
+  'aalt', 'ccmp', 'locl', 'rlig', 'rclt', 'init', 'medi', 'fina', 'isol', 'med2', 'fin2', 'fin3',
+  'nukt', 'akhn', 'rphf', 'blwf', 'half', 'pstf', 'vatu', 'cjct', 'pres', 'abvs', 'blws', 'psts',
+  'haln', 'rkrf', 'pref', 'abvf', 'ljmo', 'vjmo', 'tjmo',
+];
+
+const DEFAULT_ON_FEATURES = ['liga', 'clig', 'calt'];
+
+export const getFeatureLabel = (tag: string) => {
+  const set = /^ss(\d\d)$/.exec(tag);
+  if (set) return `風格組 ${Number(set[1])}`;
+  const variant = /^cv(\d\d)$/.exec(tag);
+  if (variant) return `字符變體 ${Number(variant[1])}`;
+  return FEATURE_LABELS[tag] ?? tag;
+};
+
+export const isFeatureOn = (tag: string, features?: FeatureSettings) =>
+  features?.[tag] ?? DEFAULT_ON_FEATURES.includes(tag);
+
+/** True when `features` turns something on or off relative to the browser defaults. */
+export const hasCustomFeatures = (features?: FeatureSettings) =>
+  Object.entries(features ?? {}).some(([tag, on]) => on !== DEFAULT_ON_FEATURES.includes(tag));
+
+type FeatureLookup = {
+  single: Map<number, number>;
+  multiple: Map<number, number[]>;
+  /** Longest component sequence first, so the greediest ligature wins. */
+  ligatures: { sub: number[]; by: number }[];
+};
+
+const lookupCache = new WeakMap<opentype.Font, Map<string, FeatureLookup>>();
+
+const getFeatureLookup = (font: opentype.Font, tag: string): FeatureLookup => {
+  let cache = lookupCache.get(font);
+  if (!cache) {
+    cache = new Map();
+    lookupCache.set(font, cache);
+  }
+  const cached = cache.get(tag);
+  if (cached) return cached;
+
+  const substitution = font.substitution;
+  const single = new Map<number, number>();
+  for (const { sub, by } of substitution.getSingle(tag)) single.set(sub, by);
+  // 替代字形 (type 3) 取第一個候選
+  for (const { sub, by } of substitution.getAlternates(tag)) {
+    if (by.length > 0 && !single.has(sub)) single.set(sub, by[0]);
+  }
+  const multiple = new Map<number, number[]>();
+  for (const { sub, by } of substitution.getMultiple(tag)) multiple.set(sub, by);
+  const ligatures = [...substitution.getLigatures(tag)].sort((a, b) => b.sub.length - a.sub.length);
+
+  const lookup = { single, multiple, ligatures };
+  cache.set(tag, lookup);
+  return lookup;
+};
+
+const isLookupEmpty = (lookup: FeatureLookup) =>
+  lookup.single.size === 0 && lookup.multiple.size === 0 && lookup.ligatures.length === 0;
+
+// opentype.js 解析出的 GSUB FeatureList 紀錄（套件未提供型別）
+type FeatureRecord = { tag: string; feature?: { lookupListIndexes?: number[] } };
+
+const getFeatureRecords = (font: opentype.Font) => (font.tables?.gsub?.features ?? []) as FeatureRecord[];
+
+/** GSUB features offered by the font, in tag order, excluding the script-shaping ones that cannot be switched off. */
+export const getFontFeatures = (font: opentype.Font): FontFeature[] => {
+  const tags = Array.from(new Set(getFeatureRecords(font).map(f => f.tag)));
+  return tags
+    .filter(tag => !HIDDEN_FEATURES.includes(tag))
+    .sort()
+    .map(tag => ({
+      tag,
+      label: getFeatureLabel(tag),
+      defaultOn: DEFAULT_ON_FEATURES.includes(tag),
+      supported: !isLookupEmpty(getFeatureLookup(font, tag)),
+    }));
+};
+
+const applyFeature = (lookup: FeatureLookup, indexes: number[]): number[] => {
+  const result: number[] = [];
+  for (let i = 0; i < indexes.length; i++) {
+    const ligature = lookup.ligatures.find(lig =>
+      lig.sub.every((component, offset) => indexes[i + offset] === component)
+    );
+    if (ligature) {
+      result.push(ligature.by);
+      i += ligature.sub.length - 1;
+    } else if (lookup.multiple.has(indexes[i])) {
+      result.push(...lookup.multiple.get(indexes[i])!);
+    } else {
+      result.push(lookup.single.get(indexes[i]) ?? indexes[i]);
+    }
+  }
+  return result;
+};
+
+// opentype.js 遇到不支援的查找表格式（如部分阿拉伯字體 rlig 的 type 5 format 3）會拋出錯誤，此時退回未塑形的字形
+const stringToGlyphs = (font: opentype.Font, text: string, options?: object): opentype.Glyph[] => {
+  try {
+    return font.stringToGlyphs(text, options);
+  } catch {
+    return Array.from(text, char => font.charToGlyph(char));
+  }
+};
+
+// GSUB 依查找表順序套用，而非功能標籤順序
+const getLookupOrder = (font: opentype.Font, tag: string) => {
+  const indexes = getFeatureRecords(font)
+    .filter(f => f.tag === tag)
+    .flatMap(f => f.feature?.lookupListIndexes ?? []);
+  return indexes.length > 0 ? Math.min(...indexes) : Infinity;
+};
+
+/** Glyphs for `text` after opentype.js's own shaping plus every enabled feature, applied in GSUB lookup order. */
+export const getFeatureGlyphs = (font: opentype.Font, text: string, features?: FeatureSettings): opentype.Glyph[] => {
+  if (!hasCustomFeatures(features)) return stringToGlyphs(font, text);
+
+  // liga 交由下方與其他功能一同依序套用，rlig 與阿拉伯文字形仍由 opentype.js 處理
+  const glyphs = stringToGlyphs(font, text, { features: { liga: false, rlig: true } });
+  let indexes = glyphs.map(glyph => glyph.index);
+  const enabled = getFontFeatures(font)
+    .filter(({ tag, supported }) => supported && isFeatureOn(tag, features))
+    .sort((a, b) => getLookupOrder(font, a.tag) - getLookupOrder(font, b.tag));
+  for (const { tag } of enabled) {
+    indexes = applyFeature(getFeatureLookup(font, tag), indexes);
+  }
+  return indexes.map(index => font.glyphs.get(index));
+};
+
+const getGlyphChars = (font: opentype.Font) => {
+  const chars = new Map<number, string>();
+  const glyphIndexMap: Record<string, number> = font.tables?.cmap?.glyphIndexMap ?? {};
+  for (const [code, index] of Object.entries(glyphIndexMap)) {
+    if (!chars.has(index)) chars.set(index, String.fromCodePoint(Number(code)));
+  }
+  return chars;
+};
+
+const SAMPLE_LENGTH = 16;
+
+/**
+ * Specimen text for a before / after row: `text` itself when the feature changes any of its glyphs,
+ * otherwise characters drawn from the feature's own coverage.
+ */
+export const getFeatureSample = (font: opentype.Font, tag: string, text: string) => {
+  const lookup = getFeatureLookup(font, tag);
+  const indexes = stringToGlyphs(font, text, { features: { liga: false, rlig: true } }).map(glyph => glyph.index);
+  const shaped = applyFeature(lookup, indexes);
+  if (shaped.length !== indexes.length || shaped.some((index, i) => index !== indexes[i])) return text;
+
+  const chars = getGlyphChars(font);
+  const samples: string[] = [];
+  for (const lig of lookup.ligatures) {
+    const sample = lig.sub.map(index => chars.get(index) ?? '').join('');
+    if (sample.length === lig.sub.length) samples.push(sample);
+  }
+  for (const index of [...lookup.single.keys(), ...lookup.multiple.keys()]) {
+    const char = chars.get(index);
+    if (char) samples.push(char);
+  }
+  return samples.slice(0, SAMPLE_LENGTH).join(lookup.ligatures.length > 0 ? ' ' : '') || text;
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 版本比較：以字形名稱配對兩個版本的字形，列出新增、移除、輪廓與字寬變更，以及字距、度量與 name table 的差異
+
+import * as opentype from 'opentype.js';
+import { LoadedFont } from './specimen';
+import { getCharmapGlyph } from './charmap';
+import { getKerningPairs } from './kerning';
+import { inspectFont } from './fontInspector';
+
+export type FontDiffView = 'overlay' | 'side-by-side';
+
+export type GlyphDiff = {
+  name: string;
+  unicode?: number;
+  /** Glyph index in the earlier build; absent for added glyphs. */
+  before?: number;
+  /** Glyph index in the later build; absent for removed glyphs. */
+  after?: number;
+  outlineChanged: boolean;
+  advance?: { before: number; after: number };
+};
+
+export type ValueChange<T> = { key: string; before: T | null; after: T | null };
+
+export type FontDiff = {
+  added: GlyphDiff[];
+  removed: GlyphDiff[];
+  /** Glyphs in both builds whose outline or advance width differs. */
+  changed: GlyphDiff[];
+  /** Kerning pairs keyed by glyph names; null means the pair is not kerned in that build. */
+  kerning: { left: string; right: string; before: number | null; after: number | null }[];
+  metrics: ValueChange<number | string>[];
+  names: ValueChange<string>[];
+};
+
+// 路徑以兩位小數序列化後比較，避免浮點誤差造成誤判
+const getOutlineKey = (glyph: opentype.Glyph) => glyph.path.toPathData(2);
+
+const getGlyphsByName = (font: opentype.Font) => {
+  const glyphs = new Map<string, number>();
+  for (let index = 0; index < font.glyphs.length; index++) {
+    glyphs.set(getCharmapGlyph(font, index).name, index);
+  }
+  return glyphs;
+};
+
+const getNamedKerning = (font: opentype.Font) => {
+  const named = new Map<string, number>();
+  getKerningPairs(font).forEach(({ left, right, value }) => {
+    named.set(`${getCharmapGlyph(font, left).name} ${getCharmapGlyph(font, right).name}`, value);
+  });
+  return named;
+};
+
+const diffRecords = <T>(before: Record<string, T>, after: Record<string, T>): ValueChange<T>[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => before[key] !== after[key])
+    .map(key => ({ key, before: before[key] ?? null, after: after[key] ?? null }));
+
+/** Compares an earlier build with a later one, matching glyphs by name (or `gid<index>` when unnamed). */
+export const diffFonts = (before: LoadedFont, after: LoadedFont): FontDiff => {
+  const beforeGlyphs = getGlyphsByName(before.font);
+  const afterGlyphs = getGlyphsByName(after.font);
+
+  const removed: GlyphDiff[] = [];
+  const changed: GlyphDiff[] = [];
+  beforeGlyphs.forEach((beforeIndex, name) => {
+    const beforeGlyph = before.font.glyphs.get(beforeIndex);
+    const afterIndex = afterGlyphs.get(name);
+    if (afterIndex === undefined) {
+      removed.push({ name, unicode: beforeGlyph.unicode, before: beforeIndex, outlineChanged: false });
+      return;
+    }
+    const afterGlyph = after.font.glyphs.get(afterIndex);
+    const outlineChanged = getOutlineKey(beforeGlyph) !== getOutlineKey(afterGlyph);
+    const advance = beforeGlyph.advanceWidth !== afterGlyph.advanceWidth
+      ? { before: beforeGlyph.advanceWidth ?? 0, after: afterGlyph.advanceWidth ?? 0 }
+      : undefined;
+    if (outlineChanged || advance) {
+      changed.push({ name, unicode: afterGlyph.unicode, before: beforeIndex, after: afterIndex, outlineChanged, advance });
+    }
+  });
+
+  const added: GlyphDiff[] = [];
+  afterGlyphs.forEach((afterIndex, name) => {
+    if (!beforeGlyphs.has(name)) {
+      added.push({ name, unicode: after.font.glyphs.get(afterIndex).unicode, after: afterIndex, outlineChanged: false });
+    }
+  });
+
+  const beforeKerning = getNamedKerning(before.font);
+  const afterKerning = getNamedKerning(after.font);
+  const kerning = diffRecords(Object.fromEntries(beforeKerning), Object.fromEntries(afterKerning)).map(change => {
+    const [left, right] = change.key.split(' ');
+    return { left, right, before: change.before, after: change.after };
+  });
+
+  const beforeInspection = inspectFont(before);
+  const afterInspection = inspectFont(after);
+  const metrics = diffRecords<number | string>(
+    { ...beforeInspection.metrics, ...beforeInspection.os2 },
+    { ...afterInspection.metrics, ...afterInspection.os2 }
+  );
+  const toNameRecord = (names: typeof beforeInspection.names) =>
+    Object.fromEntries(names.map(({ key, language, value }) => [`${key} (${language})`, value]));
+  const names = diffRecords(toNameRecord(beforeInspection.names), toNameRecord(afterInspection.names));
+
+  return { added, removed, changed, kerning, metrics, names };
+};
+
+/** Glyphs drawn in the visual report: changed glyphs first, then added, then removed. */
+export const getDiffGlyphs = (diff: FontDiff) => [...diff.changed, ...diff.added, ...diff.removed];
+
+export const hasFontDiff = (diff: FontDiff) =>
+  [diff.added, diff.removed, diff.changed, diff.kerning, diff.metrics, diff.names].some(list => list.length > 0);
+
+export const describeGlyphDiff = (glyph: GlyphDiff) => {
+  if (glyph.before === undefined) return '新增';
+  if (glyph.after === undefined) return '移除';
+  return [
+    glyph.outlineChanged ? '輪廓' : '',
+    glyph.advance ? `字寬 ${glyph.advance.before} > ${glyph.advance.after}` : '',
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字體檢視：彙整度量、OS/2、name table、Unicode 範圍與檔案內的資料表，可匯出 JSON 或 CSV
+
+import { LoadedFont } from './specimen';
+import { getFontMetadata, getXHeight, getCapHeight } from './fontMetadata';
+import { UnicodeRangeCoverage, getUnicodeRangeCoverage } from './unicodeRanges';
+
+export type InspectionFormat = 'json' | 'csv';
+
+export type FontInspection = {
+  fileName: string;
+  fullName: string;
+  outlines: string;
+  glyphCount: number;
+  metrics: {
+    unitsPerEm: number;
+    ascender: number;
+    descender: number;
+    lineGap: number | null;
+    typoAscender: number | null;
+    typoDescender: number | null;
+    typoLineGap: number | null;
+    winAscent: number | null;
+    winDescent: number | null;
+    /** From OS/2 (version 2+), otherwise measured from the `x` / `H` glyphs; null when neither exists. */
+    xHeight: number | null;
+    capHeight: number | null;
+  };
+  /** Null when the font has no OS/2 table. */
+  os2: {
+    version: number;
+    usWeightClass: number;
+    usWidthClass: number;
+    achVendID: string;
+    fsType: number;
+    fsSelection: number;
+  } | null;
+  names: { key: string; language: string; value: string }[];
+  unicodeRanges: UnicodeRangeCoverage[];
+  /** Table tags in the file's table directory, which includes tables opentype.js does not parse. */
+  tables: string[];
+};
+
+const SFNT_DIRECTORY_OFFSET = 12;
+const SFNT_RECORD_SIZE = 16;
+const WOFF_DIRECTORY_OFFSET = 44;
+const WOFF_RECORD_SIZE = 20;
+
+/** Reads the table tags from an sfnt (TrueType / OpenType) or WOFF header; empty for anything else. */
+export const readTableTags = (buffer: ArrayBuffer): string[] => {
+  if (buffer.byteLength < SFNT_DIRECTORY_OFFSET) return [];
+  const view = new DataView(buffer);
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  const isWoff = signature === 'wOFF';
+  if (signature === 'ttcf' || signature === 'wOF2') return [];
+
+  const numTables = view.getUint16(isWoff ? 12 : 4);
+  const directory = isWoff ? WOFF_DIRECTORY_OFFSET : SFNT_DIRECTORY_OFFSET;
+  const recordSize = isWoff ? WOFF_RECORD_SIZE : SFNT_RECORD_SIZE;
+  if (buffer.byteLength < directory + numTables * recordSize) return [];
+
+  return Array.from({ length: numTables }, (_, i) =>
+    String.fromCharCode(...new Uint8Array(buffer, directory + i * recordSize, 4))
+  );
+};
+
+export const inspectFont = (loaded: LoadedFont): FontInspection => {
+  const { font } = loaded;
+  const { os2, hhea } = font.tables ?? {};
+  const metadata = getFontMetadata(font);
+
+  return {
+    fileName: loaded.fileName,
+    fullName: metadata.fullName,
+    outlines: font.outlinesFormat === 'cff' ? 'CFF' : 'TrueType',
+    glyphCount: metadata.glyphCount,
+    metrics: {
+      unitsPerEm: font.unitsPerEm,
+      ascender: font.ascender,
+      descender: font.descender,
+      lineGap: hhea?.lineGap ?? null,
+      typoAscender: os2?.sTypoAscender ?? null,
+      typoDescender: os2?.sTypoDescender ?? null,
+      typoLineGap: os2?.sTypoLineGap ?? null,
+      winAscent: os2?.usWinAscent ?? null,
+      winDescent: os2?.usWinDescent ?? null,
+      xHeight: getXHeight(font),
+      capHeight: getCapHeight(font),
+    },
+    os2: os2
+      ? {
+          version: os2.version,
+          usWeightClass: os2.usWeightClass,
+          usWidthClass: os2.usWidthClass,
+          achVendID: os2.achVendID ?? '',
+          fsType: os2.fsType,
+          fsSelection: os2.fsSelection,
+        }
+      : null,
+    names: Object.entries((font.names ?? {}) as Record<string, Record<string, string>>).flatMap(([key, record]) =>
+      Object.entries(record).map(([language, value]) => ({ key, language, value }))
+    ),
+    unicodeRanges: getUnicodeRangeCoverage(font),
+    tables: loaded.tableTags,
+  };
+};
+
+const escapeCsv = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Flattens the report to `section,key,value` rows so it opens directly in a spreadsheet. */
+export const inspectionToCsv = (inspection: FontInspection) => {
+  const rows: [string, string, string | number | null][] = [
+    ['font', 'fileName', inspection.fileName],
+    ['font', 'fullName', inspection.fullName],
+    ['font', 'outlines', inspection.outlines],
+    ['font', 'glyphCount', inspection.glyphCount],
+    ['font', 'tables', inspection.tables.join(' ')],
+    ...Object.entries(inspection.metrics).map(([key, value]): [string, string, number | null] => ['metrics', key, value]),
+    ...Object.entries(inspection.os2 ?? {}).map(([key, value]): [string, string, string | number] => ['os2', key, value]),
+    ...inspection.names.map(({ key, language, value }): [string, string, string] => ['name', `${key} (${language})`, value]),
+    ...inspection.unicodeRanges.map((range): [string, string, string] => [
+      'unicodeRange',
+      `${range.bit} ${range.name}`,
+      `${range.codePoints}/${range.total}${range.declared ? '' : ' not declared'}`,
+    ]),
+  ];
+  return ['section,key,value', ...rows.map(row => row.map(escapeCsv).join(','))].join('\r\n');
+};
+
+export const serializeInspection = (inspection: FontInspection, format: InspectionFormat) =>
+  format === 'json' ? JSON.stringify(inspection, null, 2) : inspectionToCsv(inspection);
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as opentype from 'opentype.js';
+
+export type FontMetadata = {
+  family: string;
+  subfamily: string;
+  fullName: string;
+  version: string;
+  designer: string;
+  license: string;
+  glyphCount: number;
+};
+
+/** Picks the English string from a localised name record, falling back to the first localisation. */
+export const getLocalizedName = (record: Record<string, string> | undefined): string => {
+  if (!record) return '';
+  return record.en ?? Object.values(record)[0] ?? '';
+};
+
+/** Reads a name-table entry, preferring the English record over other localisations. */
+export const getFontName = (font: opentype.Font, key: string): string => getLocalizedName(font.names?.[key]);
+
+export const getFontMetadata = (font: opentype.Font): FontMetadata => ({
+  family: getFontName(font, 'preferredFamily') || getFontName(font, 'fontFamily'),
+  subfamily: getFontName(font, 'preferredSubfamily') || getFontName(font, 'fontSubfamily'),
+  fullName: getFontName(font, 'fullName'),
+  version: getFontName(font, 'version'),
+  designer: getFontName(font, 'designer'),
+  license: getFontName(font, 'license'),
+  glyphCount: font.numGlyphs ?? font.glyphs?.length ?? 0,
+});
+
+const measureGlyphHeight = (font: opentype.Font, char: string) => {
+  const index = font.charToGlyphIndex(char);
+  if (!(index > 0)) return null;
+  const { yMax } = font.glyphs.get(index).getBoundingBox();
+  return Number.isFinite(yMax) ? Math.round(yMax) : null;
+};
+
+/** x-height in font units from OS/2 (version 2+), otherwise measured from the `x` glyph; null when neither exists. */
+export const getXHeight = (font: opentype.Font): number | null => font.tables?.os2?.sxHeight || measureGlyphHeight(font, 'x');
+
+/** Cap height in font units from OS/2 (version 2+), otherwise measured from the `H` glyph; null when neither exists. */
+export const getCapHeight = (font: opentype.Font): number | null => font.tables?.os2?.sCapHeight || measureGlyphHeight(font, 'H');
+
+/** OS/2 usWeightClass (100–900), or 400 when the font has no OS/2 table. */
+export const getFontWeight = (font: opentype.Font): number => font.tables?.os2?.usWeightClass ?? 400;
+
+export const isItalicFont = (font: opentype.Font) =>
+  Boolean((font.tables?.os2?.fsSelection ?? 0) & 1) || Boolean((font.tables?.head?.macStyle ?? 0) & 2);
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字距對：從 GPOS 'kern' 功能（PairPos）或舊式 kern 表列出所有非零的字距值
+
+import * as opentype from 'opentype.js';
+
+export type KerningSource = 'GPOS' | 'kern';
+
+export type KerningPair = {
+  left: number;
+  right: number;
+  /** Horizontal adjustment in font units. */
+  value: number;
+};
+
+type Coverage = { format: 1; glyphs: number[] } | { format: 2; ranges: { start: number; end: number; index: number }[] };
+type ClassDef = { format: 1; startGlyph: number; classes: number[] } | { format: 2; ranges: { start: number; end: number; classId: number }[] };
+type ValueRecord = { xAdvance?: number };
+// opentype.js 解析出的 PairPos 子表（套件未提供型別）；format 1 逐對列出，format 2 依左右類別
+type PairPosSubtable =
+  | { posFormat: 1; coverage: Coverage; pairSets: { secondGlyph: number; value1?: ValueRecord }[][] }
+  | { posFormat: 2; coverage: Coverage; classDef1: ClassDef; classDef2: ClassDef; classRecords: { value1?: ValueRecord }[][] };
+type KerningLookup = { subtables: PairPosSubtable[] };
+
+// 與 opentype.js 的 getKerningValue 一致：有 GPOS 字距時只用 GPOS，否則才用 kern 表
+const getGposKerningLookups = (font: opentype.Font) =>
+  font.position?.defaultKerningTables as KerningLookup[] | undefined;
+
+export const getKerningSource = (font: opentype.Font): KerningSource | null => {
+  if (getGposKerningLookups(font)?.length) return 'GPOS';
+  return Object.keys(font.kerningPairs ?? {}).length > 0 ? 'kern' : null;
+};
+
+const getCoveredGlyphs = (coverage: Coverage): number[] =>
+  coverage.format === 1
+    ? coverage.glyphs
+    : coverage.ranges.flatMap(({ start, end }) => Array.from({ length: end - start + 1 }, (_, i) => start + i));
+
+// 類別 0 是未列入 classDef 的所有字形，通常不設字距，因此不展開
+const getClassGlyphs = (classDef: ClassDef): Map<number, number[]> => {
+  const classes = new Map<number, number[]>();
+  const add = (glyph: number, classId: number) => {
+    if (classId === 0) return;
+    const glyphs = classes.get(classId);
+    if (glyphs) glyphs.push(glyph);
+    else classes.set(classId, [glyph]);
+  };
+  if (classDef.format === 1) {
+    classDef.classes.forEach((classId, i) => add(classDef.startGlyph + i, classId));
+  } else {
+    for (const { start, end, classId } of classDef.ranges) {
+      for (let glyph = start; glyph <= end; glyph++) add(glyph, classId);
+    }
+  }
+  return classes;
+};
+
+const pairCache = new WeakMap<opentype.Font, Map<string, KerningPair>>();
+
+const getGlyphClass = (classDef: ClassDef, glyph: number) => {
+  if (classDef.format === 1) {
+    const index = glyph - classDef.startGlyph;
+    return index >= 0 && index < classDef.classes.length ? classDef.classes[index] : 0;
+  }
+  return classDef.ranges.find(range => glyph >= range.start && glyph <= range.end)?.classId ?? 0;
+};
+
+/**
+ * Every non-zero kerning pair, keyed by `left,right` glyph index.
+ * Earlier GPOS subtables win over later ones for the same pair, as in shaping.
+ */
+export const getKerningPairs = (font: opentype.Font): Map<string, KerningPair> => {
+  const cached = pairCache.get(font);
+  if (cached) return cached;
+
+  const pairs = new Map<string, KerningPair>();
+  pairCache.set(font, pairs);
+  const add = (left: number, right: number, value: number) => {
+    const key = `${left},${right}`;
+    if (value !== 0 && !pairs.has(key)) pairs.set(key, { left, right, value });
+  };
+
+  const lookups = getGposKerningLookups(font);
+  if (lookups?.length) {
+    for (const lookup of lookups) {
+      for (const subtable of lookup.subtables) {
+        const covered = getCoveredGlyphs(subtable.coverage);
+        if (subtable.posFormat === 1) {
+          covered.forEach((left, i) => {
+            for (const pair of subtable.pairSets[i] ?? []) add(left, pair.secondGlyph, pair.value1?.xAdvance ?? 0);
+          });
+        } else if (subtable.posFormat === 2) {
+          const rightClasses = getClassGlyphs(subtable.classDef2);
+          for (const left of covered) {
+            const record = subtable.classRecords[getGlyphClass(subtable.classDef1, left)] ?? [];
+            rightClasses.forEach((rights, classId) => {
+              const value = record[classId]?.value1?.xAdvance ?? 0;
+              if (value !== 0) rights.forEach(right => add(left, right, value));
+            });
+          }
+        }
+      }
+    }
+    return pairs;
+  }
+
+  for (const [key, value] of Object.entries((font.kerningPairs ?? {}) as Record<string, number>)) {
+    const [left, right] = key.split(',').map(Number);
+    add(left, right, value);
+  }
+  return pairs;
+};
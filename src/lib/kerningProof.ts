@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字距校樣：每個字距對放在 HOH / non 控制字串之間，標示過大的字距值與常見但未設定的字距對
+
+import * as opentype from 'opentype.js';
+import { CharmapLayout, CHARMAP_LABEL_LINE } from './charmap';
+import { getKerningPairs } from './kerning';
+
+export type KerningFlag = 'extreme' | 'missing';
+
+export type KerningProofPair = {
+  left: number;
+  right: number;
+  /** Adjustment in font units; 0 for missing pairs. */
+  value: number;
+  flag?: KerningFlag;
+};
+
+/** Kerning at or beyond this fraction of the em (either direction) is flagged as extreme. */
+export const EXTREME_KERNING_EM = 0.15;
+
+// 拉丁字體常需要字距的組合；兩個字形都存在卻沒有字距值時標示為缺少
+const EXPECTED_PAIRS = [
+  'AT', 'AV', 'AW', 'AY', 'Av', 'Aw', 'Ay', 'FA', 'F,', 'F.', 'LT', 'LV', 'LW', 'LY', 'Ly', 'PA', 'P,', 'P.',
+  'RT', 'RV', 'RW', 'RY', 'TA', 'Ta', 'Tc', 'Te', 'To', 'Tr', 'Ts', 'Tu', 'Tw', 'Ty', 'T,', 'T.', 'VA', 'Va',
+  'Ve', 'Vo', 'V,', 'V.', 'WA', 'Wa', 'We', 'Wo', 'W,', 'W.', 'YA', 'Ya', 'Ye', 'Yo', 'Yu', 'Y,', 'Y.',
+  'av', 'aw', 'ay', 'ov', 'ow', 'oy', 'r,', 'r.', 'v,', 'v.', 'w,', 'w.', 'y,', 'y.', "L'", "'A",
+];
+
+const UPPERCASE_CONTROL = 'HOH';
+const LOWERCASE_CONTROL = 'non';
+// 控制字串與字距對約佔 9 個字寬
+const PROOF_CELL_EMS = 9;
+
+const proofCache = new WeakMap<opentype.Font, KerningProofPair[]>();
+
+const getPairGlyphs = (font: opentype.Font, pair: string) => {
+  const [left, right] = Array.from(pair).map(char => font.charToGlyphIndex(char));
+  return left > 0 && right > 0 ? { left, right } : null;
+};
+
+/**
+ * Every kerned pair plus expected pairs the font leaves unkerned.
+ * Extreme pairs come first, then missing ones, then the rest in glyph order.
+ */
+export const getKerningProofPairs = (font: opentype.Font): KerningProofPair[] => {
+  const cached = proofCache.get(font);
+  if (cached) return cached;
+
+  const pairs = getKerningPairs(font);
+  const threshold = EXTREME_KERNING_EM * font.unitsPerEm;
+  const kerned: KerningProofPair[] = Array.from(pairs.values())
+    .map(({ left, right, value }): KerningProofPair => ({ left, right, value, flag: Math.abs(value) >= threshold ? 'extreme' : undefined }))
+    .sort((a, b) => a.left - b.left || a.right - b.right);
+
+  const missing: KerningProofPair[] = EXPECTED_PAIRS
+    .map(pair => getPairGlyphs(font, pair))
+    .filter(glyphs => glyphs && !pairs.has(`${glyphs.left},${glyphs.right}`))
+    .map(({ left, right }) => ({ left, right, value: 0, flag: 'missing' }));
+
+  const proof = [...kerned.filter(pair => pair.flag), ...missing, ...kerned.filter(pair => !pair.flag)];
+  proofCache.set(font, proof);
+  return proof;
+};
+
+const isLowercase = (font: opentype.Font, glyphIndex: number) => {
+  const { unicode } = font.glyphs.get(glyphIndex);
+  if (unicode === undefined) return false;
+  const char = String.fromCodePoint(unicode);
+  return char !== char.toUpperCase();
+};
+
+/**
+ * Glyph indices for the proof line: the pair between control strings matching each side's case,
+ * e.g. `HOH` + `T` + `o` + `non`. Control characters the font lacks are left out.
+ */
+export const getProofGlyphs = (font: opentype.Font, pair: KerningProofPair): number[] => {
+  const control = (glyphIndex: number) =>
+    Array.from(isLowercase(font, glyphIndex) ? LOWERCASE_CONTROL : UPPERCASE_CONTROL)
+      .map(char => font.charToGlyphIndex(char))
+      .filter(index => index > 0);
+  return [...control(pair.left), pair.left, pair.right, ...control(pair.right)];
+};
+
+/** Kerning between two glyphs as used in the proof, from the same pair data as the sheet. */
+export const getProofKerning = (font: opentype.Font, left: number, right: number) =>
+  getKerningPairs(font).get(`${left},${right}`)?.value ?? 0;
+
+export const getKerningProofLayout = (width: number, height: number, fontSize: number): CharmapLayout => {
+  const columns = Math.max(1, Math.floor(width / (fontSize * PROOF_CELL_EMS)));
+  const glyphHeight = fontSize * 1.6;
+  const cellHeight = glyphHeight + CHARMAP_LABEL_LINE * 2;
+  const rows = Math.max(1, Math.floor(height / cellHeight));
+  return { columns, rows, cellWidth: width / columns, cellHeight, glyphHeight, perPage: columns * rows };
+};
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TextDirection } from './bidi';
+import en from '../presets/languages/en.json';
+import latinTr from '../presets/languages/latin-tr.json';
+import vi from '../presets/languages/vi.json';
+import zhHant from '../presets/languages/zh-hant.json';
+import zhHans from '../presets/languages/zh-hans.json';
+import ja from '../presets/languages/ja.json';
+import ko from '../presets/languages/ko.json';
+import el from '../presets/languages/el.json';
+import ru from '../presets/languages/ru.json';
+import th from '../presets/languages/th.json';
+import he from '../presets/languages/he.json';
+import ar from '../presets/languages/ar.json';
+import hi from '../presets/languages/hi.json';
+
+// 'text'：一般字樣；'waterfall'：同一行以多個字級重複；'comparison'：已選字體依字重逐行比較；'charmap'：所有字形的分頁字元表；
+// 'kerning'：字距對置於控制字串中的分頁校樣
+export type SpecimenKind = 'text' | 'waterfall' | 'comparison' | 'charmap' | 'kerning';
+
+export const SPECIMEN_KINDS: SpecimenKind[] = ['text', 'waterfall', 'comparison', 'charmap', 'kerning'];
+
+// 行在內距範圍內的水平位置；start / end 隨文字方向，RTL 的 start 在右側
+export type TextAlignment = 'start' | 'center' | 'end';
+
+export type ImageSize = {
+  width: number;
+  height: number;
+  label: string;
+  isCustom?: boolean;
+  description?: string;
+  kind?: SpecimenKind;
+  fixedFontSize?: number;
+  fixedLineHeight?: number;
+  fixedLetterSpacing?: number;
+  /** Font sizes of a waterfall specimen, top to bottom. */
+  waterfallSizes?: number[];
+  /** Draws one line of single-line text instead of a language preset paragraph. */
+  singleLine?: boolean;
+  /** Shows the language preset text in an editable box (the 700 x 166 spec). */
+  editablePresetText?: boolean;
+  /** Space between the left / right image edges and the text, in px; defaults to `SPECIMEN_PADDING`. */
+  padding?: number;
+  /** Space kept free above and below the text, in px; text that does not fit between it counts as overflow. Defaults to 0. */
+  verticalPadding?: number;
+  /** Background colour as `#rrggbb`; defaults to white. */
+  background?: string;
+  textAlign?: TextAlignment;
+};
+
+export const DEFAULT_WATERFALL_SIZES = [12, 16, 24, 36, 48, 72];
+
+export const SIZES: ImageSize[] = [
+  { 
+    width: 1055, 
+    height: 127, 
+    label: '1055 x 127 px', 
+    description: '字體總表字串圖（固定尺寸）',
+    singleLine: true,
+    fixedLineHeight: 1.2,
+    fixedLetterSpacing: 0
+  },
+  { 
+    width: 700, 
+    height: 166, 
+    label: '700 x 166 px', 
+    description: '新字體開發字樣圖（固定尺寸）',
+    editablePresetText: true,
+    fixedLineHeight: 1.2,
+    fixedLetterSpacing: 0
+  },
+  {
+    width: 1200,
+    height: 600,
+    label: '1200 x 600 px 階梯字樣',
+    description: '同一行字樣以 12 / 16 / 24 / 36 / 48 / 72 px 排列 (Waterfall)',
+    kind: 'waterfall',
+    waterfallSizes: DEFAULT_WATERFALL_SIZES,
+  },
+  {
+    width: 1200,
+    height: 800,
+    label: '1200 x 800 px 字重比較',
+    description: '已選字體依字重由細到粗逐行排列',
+    kind: 'comparison',
+  },
+  {
+    width: 1200,
+    height: 1600,
+    label: '1200 x 1600 px 字元表',
+    description: '字體所有字形的格狀總表，標示碼位與字形名稱，超過一頁時分頁',
+    kind: 'charmap',
+  },
+  {
+    width: 1600,
+    height: 1200,
+    label: '1600 x 1200 px 字距校樣',
+    description: 'kern / GPOS 字距對置於 HOH / non 控制字串中，標示過大或缺少的字距，超過一頁時分頁',
+    kind: 'kerning',
+  },
+  { 
+    width: 1000, 
+    height: 1000, 
+    label: '自定義尺寸 (Custom)', 
+    isCustom: true, 
+    description: '版權圖片＆其他' 
+  },
+];
+
+export const DEFAULT_SINGLE_LINE_TEXT = 'The quick brown fox jumps over the lazy dog';
+
+export const getSpecimenKind = (size: ImageSize): SpecimenKind => size.kind ?? 'text';
+
+// 字元表與字距校樣依字體內容分頁，輸出時每頁一個檔案（PDF 為多頁文件）
+export const isPagedSpecimenKind = (kind: SpecimenKind) => kind === 'charmap' || kind === 'kerning';
+
+// 1055 x 127、單行範本、階梯字樣與字重比較僅支援單行字樣
+export const isSingleLineSize = (size: ImageSize) =>
+  size.singleLine === true || getSpecimenKind(size) !== 'text';
+
+// 700 x 166 使用語言預設字樣（可編輯）
+export const isPresetSpecimenSize = (size: ImageSize) => size.editablePresetText === true;
+
+export const getDefaultFontSize = (size: ImageSize, preset?: LanguagePreset) => {
+  const { singleLine, multiLine } = preset?.recommendedSizes ?? DEFAULT_RECOMMENDED_SIZES;
+  return isSingleLineSize(size) ? singleLine : multiLine;
+};
+
+export type RecommendedSizes = {
+  singleLine: number;
+  multiLine: number;
+  lineHeight: number;
+};
+
+export type LanguagePreset = {
+  id: string;
+  name: string;
+  /** ISO 15924 script tag, e.g. `Latn`, `Hant`, `Arab`. */
+  script: string;
+  direction: TextDirection;
+  recommendedSizes: RecommendedSizes;
+  content: string;
+};
+
+export const DEFAULT_RECOMMENDED_SIZES: RecommendedSizes = { singleLine: 32, multiLine: 28, lineHeight: 1.2 };
+
+export class PresetFormatError extends Error {}
+
+const PRESET_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const SCRIPT_TAG_PATTERN = /^[A-Z][a-z]{3}$/;
+
+const positiveNumber = (value: unknown, fallback: number, key: string) => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new PresetFormatError(`"recommendedSizes.${key}" must be a positive number`);
+  }
+  return value;
+};
+
+/**
+ * Validates a preset read from JSON. `content` may be a single string or an array of lines;
+ * `script`, `direction` and `recommendedSizes` fall back to Latin left-to-right defaults.
+ */
+export const parseLanguagePreset = (input: unknown): LanguagePreset => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new PresetFormatError('A preset must be a JSON object');
+  }
+  const value = input as Record<string, unknown>;
+
+  const { id, name, script = 'Latn', direction = 'ltr', recommendedSizes = {} } = value;
+  if (typeof id !== 'string' || !PRESET_ID_PATTERN.test(id)) {
+    throw new PresetFormatError('"id" must use lowercase letters, digits and hyphens');
+  }
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new PresetFormatError(`Preset "${id}" needs a "name"`);
+  }
+  if (typeof script !== 'string' || !SCRIPT_TAG_PATTERN.test(script)) {
+    throw new PresetFormatError(`Preset "${id}": "script" must be an ISO 15924 tag such as "Latn"`);
+  }
+  if (direction !== 'ltr' && direction !== 'rtl') {
+    throw new PresetFormatError(`Preset "${id}": "direction" must be "ltr" or "rtl"`);
+  }
+  const content = Array.isArray(value.content) && value.content.every(line => typeof line === 'string')
+    ? value.content.join('\n')
+    : value.content;
+  if (typeof content !== 'string' || content.length === 0) {
+    throw new PresetFormatError(`Preset "${id}": "content" must be a string or an array of lines`);
+  }
+  if (typeof recommendedSizes !== 'object' || recommendedSizes === null) {
+    throw new PresetFormatError(`Preset "${id}": "recommendedSizes" must be an object`);
+  }
+  const sizes = recommendedSizes as Record<string, unknown>;
+
+  return {
+    id,
+    name: name.trim(),
+    script,
+    direction,
+    recommendedSizes: {
+      singleLine: positiveNumber(sizes.singleLine, DEFAULT_RECOMMENDED_SIZES.singleLine, 'singleLine'),
+      multiLine: positiveNumber(sizes.multiLine, DEFAULT_RECOMMENDED_SIZES.multiLine, 'multiLine'),
+      lineHeight: positiveNumber(sizes.lineHeight, DEFAULT_RECOMMENDED_SIZES.lineHeight, 'lineHeight'),
+    },
+    content,
+  };
+};
+
+/** JSON form of a preset, with the content split into lines for readability. */
+export const serializeLanguagePreset = ({ content, ...preset }: LanguagePreset) => ({
+  ...preset,
+  content: content.split('\n'),
+});
+
+// 內建語言預設存放於 src/presets/languages/*.json，排列順序即此處的匯入順序
+export const BUILTIN_LANGUAGE_PRESETS: LanguagePreset[] = [
+  en, latinTr, vi, zhHant, zhHans, ja, ko, el, ru, th, he, ar, hi,
+].map(parseLanguagePreset);
+
+// 「其他語言」：字樣由使用者輸入，方向依文字自動判斷
+export const CUSTOM_LANGUAGE_PRESET: LanguagePreset = {
+  id: 'custom',
+  name: '其他語言 (Custom)',
+  script: 'Zyyy',
+  direction: 'ltr',
+  recommendedSizes: DEFAULT_RECOMMENDED_SIZES,
+  content: '',
+};
+
+export const LANGUAGE_PRESETS: LanguagePreset[] = [...BUILTIN_LANGUAGE_PRESETS, CUSTOM_LANGUAGE_PRESET];
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 使用者自訂的尺寸範本：與內建 SIZES 同為 ImageSize，另帶 id 以便儲存、編輯與匯出 JSON
+
+import { ImageSize, SpecimenKind, TextAlignment, DEFAULT_WATERFALL_SIZES, SPECIMEN_KINDS } from './presets';
+
+export type SizeTemplate = ImageSize & { id: string };
+
+export const TEMPLATE_MIN_DIMENSION = 50;
+export const TEMPLATE_MAX_DIMENSION = 5000;
+
+export const DEFAULT_TEMPLATE_BACKGROUND = '#ffffff';
+
+export class TemplateFormatError extends Error {}
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const TEXT_ALIGNMENTS: TextAlignment[] = ['start', 'center', 'end'];
+
+export const isSizeTemplate = (size: ImageSize): size is SizeTemplate =>
+  typeof (size as Partial<SizeTemplate>).id === 'string';
+
+/** Identity of a size in lists: the template id, or the label of a built-in size. */
+export const getSizeKey = (size: ImageSize) => (isSizeTemplate(size) ? size.id : size.label);
+
+export const createTemplateId = () => `size-${Date.now().toString(36)}`;
+
+/** A new template copying `size`'s dimensions and typography, so a built-in spec can be used as a starting point. */
+export const createSizeTemplate = (size: ImageSize, label: string): SizeTemplate => {
+  const { isCustom, editablePresetText, ...spec } = size;
+  return { ...spec, id: createTemplateId(), label, description: undefined };
+};
+
+/**
+ * Validates a template read from JSON. Only `id`, `label`, `width` and `height` are required;
+ * omitted typography stays adjustable in the sidebar, like the custom size.
+ */
+export const parseSizeTemplate = (input: unknown): SizeTemplate => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new TemplateFormatError('A template must be a JSON object');
+  }
+  const value = input as Record<string, unknown>;
+
+  const { id, label, description, kind = 'text', singleLine, textAlign, background } = value;
+  if (typeof id !== 'string' || !TEMPLATE_ID_PATTERN.test(id)) {
+    throw new TemplateFormatError('"id" must use lowercase letters, digits and hyphens');
+  }
+  const fail = (message: string): never => {
+    throw new TemplateFormatError(`Template "${id}": ${message}`);
+  };
+
+  if (typeof label !== 'string' || label.trim().length === 0) fail('needs a "label"');
+  if (description !== undefined && typeof description !== 'string') fail('"description" must be a string');
+  for (const key of ['width', 'height']) {
+    const dimension = value[key];
+    if (
+      typeof dimension !== 'number' || !Number.isInteger(dimension) ||
+      dimension < TEMPLATE_MIN_DIMENSION || dimension > TEMPLATE_MAX_DIMENSION
+    ) {
+      fail(`"${key}" must be a whole number between ${TEMPLATE_MIN_DIMENSION} and ${TEMPLATE_MAX_DIMENSION}`);
+    }
+  }
+  if (!SPECIMEN_KINDS.includes(kind as SpecimenKind)) fail(`"kind" must be one of ${SPECIMEN_KINDS.join(', ')}`);
+  if (singleLine !== undefined && typeof singleLine !== 'boolean') fail('"singleLine" must be true or false');
+  if (textAlign !== undefined && !TEXT_ALIGNMENTS.includes(textAlign as TextAlignment)) {
+    fail(`"textAlign" must be one of ${TEXT_ALIGNMENTS.join(', ')}`);
+  }
+  if (background !== undefined && (typeof background !== 'string' || !HEX_COLOR_PATTERN.test(background))) {
+    fail('"background" must be a colour such as "#ffffff"');
+  }
+
+  const optionalNumber = (key: string, isValid: (n: number) => boolean, rule: string) => {
+    const number = value[key];
+    if (number === undefined) return undefined;
+    if (typeof number !== 'number' || !Number.isFinite(number) || !isValid(number)) fail(`"${key}" must be ${rule}`);
+    return number as number;
+  };
+
+  const waterfallSizes = value.waterfallSizes;
+  if (
+    waterfallSizes !== undefined &&
+    (!Array.isArray(waterfallSizes) || waterfallSizes.length === 0 ||
+      !waterfallSizes.every(n => typeof n === 'number' && Number.isFinite(n) && n > 0))
+  ) {
+    fail('"waterfallSizes" must be a non-empty array of positive numbers');
+  }
+
+  return {
+    id,
+    label: (label as string).trim(),
+    description: description as string | undefined,
+    width: value.width as number,
+    height: value.height as number,
+    kind: kind as SpecimenKind,
+    singleLine: singleLine as boolean | undefined,
+    fixedFontSize: optionalNumber('fixedFontSize', n => n > 0, 'a positive number'),
+    fixedLineHeight: optionalNumber('fixedLineHeight', n => n > 0, 'a positive number'),
+    fixedLetterSpacing: optionalNumber('fixedLetterSpacing', () => true, 'a number'),
+    padding: optionalNumber('padding', n => n >= 0, 'zero or a positive number'),
+    verticalPadding: optionalNumber('verticalPadding', n => n >= 0, 'zero or a positive number'),
+    background: background as string | undefined,
+    textAlign: textAlign as TextAlignment | undefined,
+    waterfallSizes: kind === 'waterfall' ? (waterfallSizes as number[] | undefined) ?? DEFAULT_WATERFALL_SIZES : undefined,
+  };
+};
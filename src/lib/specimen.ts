@@ -0,0 +1,1251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字樣圖排版核心：不依賴 React / DOM，瀏覽器與 Node CLI 共用
+
+import * as opentype from 'opentype.js';
+import { ImageSize, TextAlignment, DEFAULT_WATERFALL_SIZES, isSingleLineSize, getSpecimenKind, isPagedSpecimenKind } from './presets';
+import { createTextRenderer, RenderMode, TextRenderer } from './textRenderer';
+import { getFontMetadata, getFontWeight, isItalicFont, getXHeight, getCapHeight } from './fontMetadata';
+import { VariationSettings, resolveVariation } from './variations';
+import { FeatureSettings, FontFeature, getFeatureSample } from './features';
+import { TextDirection, getTextDirection } from './bidi';
+import { SpecimenTheme, DEFAULT_THEME, resolveBackground, paintBackground } from './theme';
+import { CopyrightStyle, DEFAULT_COPYRIGHT_STYLE, DEFAULT_COPYRIGHT_FONT_SIZE, drawCopyrightInfo, drawWatermark } from './copyright';
+import { CHARMAP_LABEL_SIZE, CHARMAP_LABEL_LINE, getGlyphCount, getCharmapGlyph, getCharmapLayout, getCharmapPageCount, getCharmapPageRange, formatGlyphCodePoint, truncateLabel } from './charmap';
+import { FontDiff, FontDiffView, GlyphDiff, getDiffGlyphs, describeGlyphDiff } from './fontDiff';
+import { KerningProofPair, getKerningProofPairs, getKerningProofLayout, getProofGlyphs, getProofKerning } from './kerningProof';
+import { clampExportScale } from './export';
+
+export type LoadedFont = {
+  id: string;
+  font: opentype.Font;
+  fontFamily: string;
+  fileName: string;
+  /** Tags from the file's table directory; `font.tables` only holds the tables opentype.js parses. */
+  tableTags: string[];
+};
+
+export type SpecimenSettings = {
+  size: ImageSize;
+  languageId: string;
+  text: string;
+  fontSize: number;
+  lineHeight: number;
+  letterSpacing: number;
+  renderMode: RenderMode;
+  showCopyright: boolean;
+  /** Axis values for variable fonts; ignored by static fonts. */
+  variation?: VariationSettings;
+  /** GSUB features toggled away from their defaults; applied by the glyph renderer. */
+  features?: FeatureSettings;
+  /** Paragraph direction from the language preset; detected from the text when absent. */
+  direction?: TextDirection;
+  /** Fits the text to the text area per font, overriding `fontSize` (and `letterSpacing`) unless the size fixes them. */
+  autoFit?: AutoFitMode;
+  /** Profile drawn when `showCopyright` is on; the built-in profile when absent. */
+  copyright?: CopyrightStyle;
+  /** Text and background colours; black on the size's background when absent. */
+  theme?: SpecimenTheme;
+  /** Page of a paginated specimen (the character map), from 0; clamped to the last page. */
+  page?: number;
+  /** Draws the metric guides over text specimens, for technical proofs. */
+  metricGuides?: boolean;
+};
+
+// 'size'：尋找能放入文字區域（左右內距內、圖片高度內）的最大字級；'size-and-spacing'：必要時同時壓縮字距
+export type AutoFitMode = 'size' | 'size-and-spacing';
+
+export const SPECIMEN_PADDING = 40;
+
+export const getSpecimenPadding = (size: ImageSize) => size.padding ?? SPECIMEN_PADDING;
+
+export const getSpecimenVerticalPadding = (size: ImageSize) => size.verticalPadding ?? 0;
+
+export const getSpecimenForeground = (settings: SpecimenSettings) => (settings.theme ?? DEFAULT_THEME).foreground;
+
+const fillBackground = (ctx: CanvasRenderingContext2D, settings: SpecimenSettings, width: number, height: number) =>
+  paintBackground(ctx, resolveBackground(settings.theme, settings.size), 0, 0, width, height);
+
+export const getSpecimenDirection = (settings: SpecimenSettings): TextDirection =>
+  settings.direction ?? getTextDirection(settings.text);
+
+/** `Family Subfamily` from the name table, or the file name when the font has none. */
+export const getFontTitle = (font: LoadedFont) => {
+  const { family, subfamily } = getFontMetadata(font.font);
+  return family ? `${family} ${subfamily}`.trim() : font.fileName;
+};
+
+/** Lightest to heaviest by usWeightClass, uprights before italics. */
+export const sortFontsByWeight = (fonts: LoadedFont[]) =>
+  [...fonts].sort((a, b) =>
+    getFontWeight(a.font) - getFontWeight(b.font) ||
+    Number(isItalicFont(a.font)) - Number(isItalicFont(b.font)) ||
+    a.fileName.localeCompare(b.fileName)
+  );
+
+/** Applies the size spec's fixed values over the user's adjustments. */
+export const getActiveTypography = (
+  size: ImageSize,
+  adjustments: { fontSize: number; lineHeight: number; letterSpacing: number }
+) => ({
+  fontSize: size.fixedFontSize ?? adjustments.fontSize,
+  lineHeight: size.fixedLineHeight ?? adjustments.lineHeight,
+  letterSpacing: size.fixedLetterSpacing ?? adjustments.letterSpacing,
+});
+
+// grid：近似正方形自動排列；vertical / horizontal：單欄 / 單列；columns：固定欄數
+export type CollageLayout = 'grid' | 'vertical' | 'horizontal' | 'columns';
+
+export type CollageBorderStyle = 'solid' | 'dashed' | 'none';
+
+export type CollageOptions = {
+  layout: CollageLayout;
+  /** Column count used by the 'columns' layout. */
+  columns: number;
+  /** Space between cells, in px before scaling. */
+  gutter: number;
+  /** Space around the whole collage, in px before scaling. */
+  margin: number;
+  borderStyle: CollageBorderStyle;
+  borderColor: string;
+  borderWidth: number;
+};
+
+export const DEFAULT_COLLAGE_OPTIONS: CollageOptions = {
+  layout: 'grid',
+  columns: 2,
+  gutter: 0,
+  margin: 0,
+  borderStyle: 'solid',
+  borderColor: '#e5e5e5',
+  borderWidth: 1,
+};
+
+export const getCollageGrid = (count: number, options: CollageOptions = DEFAULT_COLLAGE_OPTIONS) => {
+  let cols: number;
+  switch (options.layout) {
+    case 'vertical':
+      cols = 1;
+      break;
+    case 'horizontal':
+      cols = Math.max(1, count);
+      break;
+    case 'columns':
+      cols = Math.max(1, Math.min(count, Math.round(options.columns)));
+      break;
+    default:
+      cols = Math.ceil(Math.sqrt(count));
+  }
+  const rows = Math.ceil(count / cols);
+  return { cols, rows };
+};
+
+/** Unscaled collage size: the cells plus the gutters between them and the outer margin. */
+export const getCollageSize = (
+  count: number,
+  cellWidth: number,
+  cellHeight: number,
+  options: CollageOptions = DEFAULT_COLLAGE_OPTIONS
+) => {
+  const { cols, rows } = getCollageGrid(count, options);
+  return {
+    width: cols * cellWidth + (cols - 1) * options.gutter + options.margin * 2,
+    height: rows * cellHeight + (rows - 1) * options.gutter + options.margin * 2,
+  };
+};
+
+/**
+ * Raster size of a collage at `exportScale`. The MAX_EXPORT_DIM cap applies to the scaled pixels,
+ * so `scale` is lower than `exportScale` only when the scaled collage would exceed it.
+ */
+export const getCollageExportSize = (
+  count: number,
+  cellWidth: number,
+  cellHeight: number,
+  options: CollageOptions = DEFAULT_COLLAGE_OPTIONS,
+  exportScale = 1
+) => {
+  const { width, height } = getCollageSize(count, cellWidth, cellHeight, options);
+  const scale = clampExportScale(width, height, exportScale);
+  return { totalWidth: width * scale, totalHeight: height * scale, scale };
+};
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+const segment = (segmenter: Intl.Segmenter, text: string) =>
+  Array.from(segmenter.segment(text), s => s.segment);
+
+/**
+ * Wraps each paragraph at word boundaries (dictionary-based for Thai, Lao, Khmer and CJK), falling back to
+ * grapheme clusters for words wider than the line, so combining marks and surrogate pairs are never split.
+ */
+export const getWrappedLines = (renderer: TextRenderer, text: string, maxWidth: number, isSingleLine: boolean) => {
+  if (isSingleLine) return [text];
+
+  const lines: string[] = [];
+  const paragraphs = text.split('\n');
+
+  paragraphs.forEach(p => {
+    if (p.length === 0) {
+      lines.push("");
+      return;
+    }
+
+    let currentLine = "";
+
+    for (const word of segment(wordSegmenter, p)) {
+      const testLine = currentLine + word;
+      if (renderer.measure(testLine) <= maxWidth) {
+        currentLine = testLine;
+        continue;
+      }
+
+      if (currentLine.length > 0) {
+        lines.push(currentLine);
+        currentLine = "";
+      }
+      // 換行處的空白不留在下一行行首
+      if (word.trim().length === 0) continue;
+
+      if (renderer.measure(word) <= maxWidth) {
+        currentLine = word;
+        continue;
+      }
+
+      // 單字本身超出寬度時，改以字素叢集 (grapheme cluster) 斷行
+      for (const grapheme of segment(graphemeSegmenter, word)) {
+        const testGrapheme = currentLine + grapheme;
+        if (renderer.measure(testGrapheme) > maxWidth && currentLine.length > 0) {
+          lines.push(currentLine);
+          currentLine = grapheme;
+        } else {
+          currentLine = testGrapheme;
+        }
+      }
+    }
+    lines.push(currentLine);
+  });
+  return lines;
+};
+
+// 浮水印鋪滿整張圖，著作資訊區塊疊在最上層
+const drawCopyright = (ctx: CanvasRenderingContext2D, font: LoadedFont, settings: SpecimenSettings, width: number, height: number) => {
+  const area = { x: 0, y: 0, width, height };
+  const color = getSpecimenForeground(settings);
+  drawWatermark(ctx, area, settings.copyright, color);
+  drawCopyrightInfo(ctx, area, font.fileName, getSpecimenDirection(settings), settings.copyright, { color });
+};
+
+const getLineAnchor = (textAlign: TextAlignment, isRtl: boolean) => {
+  if (textAlign === 'center') return 'center';
+  return (textAlign === 'end') !== isRtl ? 'right' : 'left';
+};
+
+/** Renderer for the specimen text, plus `anchorX` placing lines between `left` and `right` per the size's alignment. */
+const createSpecimenRenderer = (ctx: CanvasRenderingContext2D, font: LoadedFont, settings: SpecimenSettings) => {
+  const direction = getSpecimenDirection(settings);
+  const align = getLineAnchor(settings.size.textAlign ?? 'start', direction === 'rtl');
+  return {
+    align,
+    anchorX: (left: number, right: number) => (align === 'center' ? (left + right) / 2 : align === 'right' ? right : left),
+    renderer: createTextRenderer(ctx, font, settings.renderMode, {
+      fontSize: settings.fontSize,
+      letterSpacing: settings.letterSpacing,
+      align,
+      direction,
+      variation: resolveVariation(font.font, settings.variation),
+      features: settings.features,
+    }),
+  };
+};
+
+// 階梯字樣與字重比較每行左側的字級 / 字體標籤
+const ROW_LABEL_SIZE = 12;
+const ROW_LABEL_HEIGHT = ROW_LABEL_SIZE * 1.6;
+const WATERFALL_LABEL_WIDTH = 56;
+
+// 標籤以文字色的淡色繪製，黑字白底時即為 #8a8a8a
+const ROW_LABEL_OPACITY = 0.46;
+
+const drawRowLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string) => {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.globalAlpha *= ROW_LABEL_OPACITY;
+  (ctx as any).letterSpacing = '0px';
+  ctx.font = `${ROW_LABEL_SIZE}px sans-serif`;
+  ctx.direction = 'ltr';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x, y);
+  ctx.restore();
+};
+
+// 單行字樣超出寬度時只裁切左右，保留上下的重音與降部
+const clipColumn = (ctx: CanvasRenderingContext2D, left: number, right: number, height: number) => {
+  ctx.beginPath();
+  ctx.rect(left, 0, right - left, height);
+  ctx.clip();
+};
+
+/** The specimen line repeated at each of the size's waterfall font sizes. */
+export const drawWaterfall = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const sizes = settings.size.waterfallSizes ?? DEFAULT_WATERFALL_SIZES;
+  const padding = getSpecimenPadding(settings.size);
+  const textLeft = padding + WATERFALL_LABEL_WIDTH;
+  const rowHeights = sizes.map(fontSize => fontSize * settings.lineHeight);
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+
+  let y = (height - rowHeights.reduce((sum, h) => sum + h, 0)) / 2;
+  sizes.forEach((fontSize, index) => {
+    const middle = y + rowHeights[index] / 2;
+    drawRowLabel(ctx, `${fontSize}px`, padding, middle, foreground);
+
+    ctx.save();
+    clipColumn(ctx, textLeft, width - padding, height);
+    ctx.fillStyle = foreground;
+    const { anchorX, renderer } = createSpecimenRenderer(ctx, font, { ...settings, fontSize });
+    renderer.fillText(settings.text, anchorX(textLeft, width - padding), middle);
+    ctx.restore();
+
+    y += rowHeights[index];
+  });
+
+  if (settings.showCopyright) {
+    drawCopyright(ctx, font, settings, width, height);
+  }
+};
+
+/** Font size for a weight comparison, reduced when the rows would not fit the image height. */
+export const getComparisonFontSize = (count: number, settings: SpecimenSettings, height: number) => {
+  const available = height - getSpecimenPadding(settings.size) * 2 - count * ROW_LABEL_HEIGHT;
+  return Math.max(1, Math.min(settings.fontSize, available / (count * settings.lineHeight)));
+};
+
+/** One labelled line per font, lightest weight at the top. */
+export const drawWeightComparison = (
+  ctx: CanvasRenderingContext2D,
+  fonts: LoadedFont[],
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const sorted = sortFontsByWeight(fonts);
+  const fontSize = getComparisonFontSize(sorted.length, settings, height);
+  const lineBox = fontSize * settings.lineHeight;
+  const rowHeight = ROW_LABEL_HEIGHT + lineBox;
+  const padding = getSpecimenPadding(settings.size);
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+
+  let y = (height - rowHeight * sorted.length) / 2;
+  for (const f of sorted) {
+    drawRowLabel(ctx, `${getFontTitle(f)} · ${getFontWeight(f.font)}`, padding, y + ROW_LABEL_HEIGHT / 2, foreground);
+
+    ctx.save();
+    clipColumn(ctx, padding, width - padding, height);
+    ctx.fillStyle = foreground;
+    const { anchorX, renderer } = createSpecimenRenderer(ctx, f, { ...settings, fontSize });
+    renderer.fillText(settings.text, anchorX(padding, width - padding), y + ROW_LABEL_HEIGHT + lineBox / 2);
+    ctx.restore();
+
+    y += rowHeight;
+  }
+
+  if (settings.showCopyright && sorted.length > 0) {
+    drawCopyright(ctx, sorted[0], settings, width, height);
+  }
+};
+
+// 功能對照圖：每個功能一列，左欄關閉、右欄開啟
+const FEATURE_HEADER_HEIGHT = ROW_LABEL_HEIGHT * 2;
+
+/** Image height of a features sheet listing `count` features with the size's padding and the current line box. */
+export const getFeaturesSheetHeight = (count: number, settings: SpecimenSettings) =>
+  Math.ceil(getSpecimenPadding(settings.size) * 2 + FEATURE_HEADER_HEIGHT + count * (ROW_LABEL_HEIGHT + settings.fontSize * settings.lineHeight));
+
+/**
+ * Before / after rows for each feature, always drawn with glyph paths since the canvas cannot switch features.
+ * Rows use the specimen text when the feature affects it, otherwise a sample of the glyphs it substitutes.
+ */
+export const drawFeaturesSheet = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  features: FontFeature[],
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const padding = getSpecimenPadding(settings.size);
+  const lineBox = settings.fontSize * settings.lineHeight;
+  const rowHeight = ROW_LABEL_HEIGHT + lineBox;
+  const columnWidth = (width - padding * 3) / 2;
+  const columns = [padding, padding * 2 + columnWidth];
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+
+  drawRowLabel(ctx, getFontTitle(font), padding, padding + ROW_LABEL_HEIGHT / 2, foreground);
+  drawRowLabel(ctx, '關閉 (off)', columns[0], padding + ROW_LABEL_HEIGHT * 1.5, foreground);
+  drawRowLabel(ctx, '開啟 (on)', columns[1], padding + ROW_LABEL_HEIGHT * 1.5, foreground);
+
+  let y = padding + FEATURE_HEADER_HEIGHT;
+  for (const feature of features) {
+    drawRowLabel(ctx, `${feature.tag} · ${feature.label}`, padding, y + ROW_LABEL_HEIGHT / 2, foreground);
+    const text = getFeatureSample(font.font, feature.tag, settings.text);
+
+    [false, true].forEach((on, index) => {
+      ctx.save();
+      clipColumn(ctx, columns[index], columns[index] + columnWidth, height);
+      ctx.fillStyle = foreground;
+      const { anchorX, renderer } = createSpecimenRenderer(ctx, font, {
+        ...settings,
+        size: { ...settings.size, textAlign: 'start' },
+        text,
+        renderMode: 'glyph',
+        features: { ...settings.features, [feature.tag]: on },
+      });
+      renderer.fillText(text, anchorX(columns[index], columns[index] + columnWidth), y + ROW_LABEL_HEIGHT + lineBox / 2);
+      ctx.restore();
+    });
+
+    y += rowHeight;
+  }
+
+  if (settings.showCopyright) {
+    drawCopyright(ctx, font, settings, width, height);
+  }
+};
+
+// 字元表：標題兩列之下為格狀字形，每格下方標示碼位與字形名稱
+const CHARMAP_HEADER_HEIGHT = ROW_LABEL_HEIGHT * 2;
+const CHARMAP_GRID_OPACITY = 0.15;
+const CHARMAP_CODE_POINT_OPACITY = 0.8;
+
+const getCharmapArea = (settings: SpecimenSettings, width: number, height: number) => {
+  const padding = getSpecimenPadding(settings.size);
+  const top = padding + CHARMAP_HEADER_HEIGHT;
+  return {
+    left: padding,
+    top,
+    layout: getCharmapLayout(width - padding * 2, height - top - padding, settings.fontSize),
+  };
+};
+
+/** Number of character map pages for a font at this size and font size. */
+export const getCharmapPages = (font: LoadedFont, settings: SpecimenSettings, width: number, height: number) =>
+  getCharmapPageCount(getGlyphCount(font.font), getCharmapArea(settings, width, height).layout);
+
+/**
+ * One page of the character map: every glyph in glyph order, drawn from its outline without features or variations.
+ * Cells are labelled with the glyph's code point (or `-` when unencoded) and its name.
+ */
+export const drawCharmap = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const { left, top, layout } = getCharmapArea(settings, width, height);
+  const glyphCount = getGlyphCount(font.font);
+  const pages = getCharmapPageCount(glyphCount, layout);
+  const { start, end } = getCharmapPageRange(glyphCount, layout, settings.page ?? 0);
+  const { cellWidth, cellHeight, glyphHeight, columns } = layout;
+  const { ascender, descender, unitsPerEm } = font.font;
+  const fontSize = settings.fontSize;
+  // 以 ascender 至 descender 的範圍在字形區垂直置中
+  const baselineOffset = (glyphHeight + ((ascender + descender) * fontSize) / unitsPerEm) / 2;
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+  const padding = getSpecimenPadding(settings.size);
+
+  drawRowLabel(ctx, getFontTitle(font), padding, padding + ROW_LABEL_HEIGHT / 2, foreground);
+  drawRowLabel(
+    ctx,
+    `${glyphCount} 個字形 · ${start + 1}–${end} · 第 ${Math.floor(start / layout.perPage) + 1} / ${pages} 頁`,
+    padding,
+    padding + ROW_LABEL_HEIGHT * 1.5,
+    foreground
+  );
+
+  for (let index = start; index < end; index++) {
+    const glyph = getCharmapGlyph(font.font, index);
+    const position = index - start;
+    const x = left + (position % columns) * cellWidth;
+    const y = top + Math.floor(position / columns) * cellHeight;
+
+    ctx.save();
+    ctx.strokeStyle = foreground;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha *= CHARMAP_GRID_OPACITY;
+    ctx.strokeRect(x, y, cellWidth, cellHeight);
+    ctx.restore();
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, cellWidth, cellHeight);
+    ctx.clip();
+
+    const advance = ((glyph.glyph.advanceWidth ?? 0) * fontSize) / unitsPerEm;
+    const path = glyph.glyph.getPath(x + (cellWidth - advance) / 2, y + baselineOffset, fontSize);
+    path.fill = foreground;
+    path.draw(ctx);
+
+    ctx.fillStyle = foreground;
+    ctx.font = `${CHARMAP_LABEL_SIZE}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const labelX = x + cellWidth / 2;
+    const alpha = ctx.globalAlpha;
+    ctx.globalAlpha = alpha * CHARMAP_CODE_POINT_OPACITY;
+    ctx.fillText(formatGlyphCodePoint(glyph), labelX, y + glyphHeight + CHARMAP_LABEL_LINE / 2);
+    ctx.globalAlpha = alpha * ROW_LABEL_OPACITY;
+    ctx.fillText(truncateLabel(glyph.name, cellWidth - 4), labelX, y + glyphHeight + CHARMAP_LABEL_LINE * 1.5);
+    ctx.restore();
+  }
+
+  if (settings.showCopyright) {
+    drawCopyright(ctx, font, settings, width, height);
+  }
+};
+
+// 字距校樣：過大的字距以紅色標示，缺少的字距以琥珀色標示
+const KERNING_FLAG_COLORS: Record<string, string> = { extreme: '#e11d48', missing: '#d97706' };
+const KERNING_FLAG_LABELS: Record<string, string> = { extreme: '過大', missing: '缺少' };
+
+const getKerningProofArea = (settings: SpecimenSettings, width: number, height: number) => {
+  const padding = getSpecimenPadding(settings.size);
+  const top = padding + CHARMAP_HEADER_HEIGHT;
+  return {
+    left: padding,
+    top,
+    layout: getKerningProofLayout(width - padding * 2, height - top - padding, settings.fontSize),
+  };
+};
+
+export const getKerningProofPages = (font: LoadedFont, settings: SpecimenSettings, width: number, height: number) =>
+  getCharmapPageCount(getKerningProofPairs(font.font).length, getKerningProofArea(settings, width, height).layout);
+
+/** Pages for the paged specimen kinds (character map, kerning proof); 1 for every other kind. */
+export const getSpecimenPages = (font: LoadedFont, settings: SpecimenSettings, width: number, height: number) => {
+  switch (getSpecimenKind(settings.size)) {
+    case 'charmap':
+      return getCharmapPages(font, settings, width, height);
+    case 'kerning':
+      return getKerningProofPages(font, settings, width, height);
+    default:
+      return 1;
+  }
+};
+
+// 依字距資料逐字排出控制字串與字距對，不經過 OpenType 功能，確保顯示的正是表列的字距值
+const drawProofLine = (
+  ctx: CanvasRenderingContext2D,
+  font: opentype.Font,
+  pair: KerningProofPair,
+  centerX: number,
+  baseline: number,
+  fontSize: number,
+  color: string
+) => {
+  const glyphs = getProofGlyphs(font, pair);
+  const scale = fontSize / font.unitsPerEm;
+  const advances = glyphs.map((index, i) => {
+    const next = glyphs[i + 1];
+    return (font.glyphs.get(index).advanceWidth ?? 0) + (next === undefined ? 0 : getProofKerning(font, index, next));
+  });
+  let x = centerX - (advances.reduce((sum, advance) => sum + advance, 0) * scale) / 2;
+  glyphs.forEach((index, i) => {
+    const path = font.glyphs.get(index).getPath(x, baseline, fontSize);
+    path.fill = color;
+    path.draw(ctx);
+    x += advances[i] * scale;
+  });
+};
+
+/**
+ * One page of the kerning proof: each pair between HOH / non control strings, labelled with its glyph names and value.
+ * Extreme and missing pairs come first and are marked in colour.
+ */
+export const drawKerningProof = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const { left, top, layout } = getKerningProofArea(settings, width, height);
+  const pairs = getKerningProofPairs(font.font);
+  const pages = getCharmapPageCount(pairs.length, layout);
+  const { start, end } = getCharmapPageRange(pairs.length, layout, settings.page ?? 0);
+  const { cellWidth, cellHeight, glyphHeight, columns } = layout;
+  const { ascender, descender, unitsPerEm } = font.font;
+  const fontSize = settings.fontSize;
+  const baselineOffset = (glyphHeight + ((ascender + descender) * fontSize) / unitsPerEm) / 2;
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+  const padding = getSpecimenPadding(settings.size);
+  const countFlag = (flag: string) => pairs.filter(pair => pair.flag === flag).length;
+
+  drawRowLabel(ctx, getFontTitle(font), padding, padding + ROW_LABEL_HEIGHT / 2, foreground);
+  drawRowLabel(
+    ctx,
+    [
+      `${pairs.length - countFlag('missing')} 組字距`,
+      `過大 ${countFlag('extreme')}`,
+      `缺少 ${countFlag('missing')}`,
+      `第 ${Math.floor(start / layout.perPage) + 1} / ${pages} 頁`,
+    ].join(' · '),
+    padding,
+    padding + ROW_LABEL_HEIGHT * 1.5,
+    foreground
+  );
+
+  if (pairs.length === 0) {
+    drawRowLabel(ctx, '此字體沒有 kern 或 GPOS 字距資料', left, top + ROW_LABEL_HEIGHT / 2, foreground);
+  }
+
+  for (let index = start; index < end; index++) {
+    const pair = pairs[index];
+    const position = index - start;
+    const x = left + (position % columns) * cellWidth;
+    const y = top + Math.floor(position / columns) * cellHeight;
+    const flagColor = pair.flag ? KERNING_FLAG_COLORS[pair.flag] : undefined;
+
+    ctx.save();
+    ctx.strokeStyle = flagColor ?? foreground;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha *= flagColor ? 1 : CHARMAP_GRID_OPACITY;
+    ctx.strokeRect(x, y, cellWidth, cellHeight);
+    ctx.restore();
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, cellWidth, cellHeight);
+    ctx.clip();
+
+    drawProofLine(ctx, font.font, pair, x + cellWidth / 2, y + baselineOffset, fontSize, foreground);
+
+    const leftName = getCharmapGlyph(font.font, pair.left).name;
+    const rightName = getCharmapGlyph(font.font, pair.right).name;
+    ctx.fillStyle = foreground;
+    ctx.font = `${CHARMAP_LABEL_SIZE}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const labelX = x + cellWidth / 2;
+    const alpha = ctx.globalAlpha;
+    ctx.globalAlpha = alpha * CHARMAP_CODE_POINT_OPACITY;
+    ctx.fillText(truncateLabel(`${leftName} ${rightName}`, cellWidth - 4), labelX, y + glyphHeight + CHARMAP_LABEL_LINE / 2);
+    if (flagColor) {
+      ctx.fillStyle = flagColor;
+      ctx.globalAlpha = alpha;
+      ctx.fillText(`${KERNING_FLAG_LABELS[pair.flag]} ${pair.value}`, labelX, y + glyphHeight + CHARMAP_LABEL_LINE * 1.5);
+    } else {
+      ctx.globalAlpha = alpha * ROW_LABEL_OPACITY;
+      ctx.fillText(String(pair.value), labelX, y + glyphHeight + CHARMAP_LABEL_LINE * 1.5);
+    }
+    ctx.restore();
+  }
+
+  if (settings.showCopyright) {
+    drawCopyright(ctx, font, settings, width, height);
+  }
+};
+
+// 版本比較：舊版字形以紅色繪製，新版以文字色繪製；疊圖時舊版只畫輪廓線
+export const DIFF_BEFORE_COLOR = '#e11d48';
+const DIFF_OVERLAY_FILL_OPACITY = 0.35;
+const DIFF_OUTLINE_WIDTH = 1.5;
+
+const getFontDiffArea = (view: FontDiffView, settings: SpecimenSettings, width: number, height: number) => {
+  const padding = getSpecimenPadding(settings.size);
+  const top = padding + CHARMAP_HEADER_HEIGHT;
+  const innerWidth = width - padding * 2;
+  // 並排時每格放兩個字形：以半寬決定欄數，再將格寬加倍
+  const layout = getCharmapLayout(view === 'side-by-side' ? innerWidth / 2 : innerWidth, height - top - padding, settings.fontSize);
+  return { left: padding, top, layout: view === 'side-by-side' ? { ...layout, cellWidth: layout.cellWidth * 2 } : layout };
+};
+
+export const getFontDiffPages = (diff: FontDiff, view: FontDiffView, settings: SpecimenSettings, width: number, height: number) =>
+  getCharmapPageCount(getDiffGlyphs(diff).length, getFontDiffArea(view, settings, width, height).layout);
+
+const drawDiffGlyph = (
+  ctx: CanvasRenderingContext2D,
+  font: opentype.Font,
+  index: number,
+  centerX: number,
+  baseline: number,
+  fontSize: number,
+  style: { fill?: string; stroke?: string; opacity?: number }
+) => {
+  const glyph = font.glyphs.get(index);
+  const advance = ((glyph.advanceWidth ?? 0) * fontSize) / font.unitsPerEm;
+  const path = glyph.getPath(centerX - advance / 2, baseline, fontSize);
+  path.fill = style.fill ?? null;
+  path.stroke = style.stroke ?? null;
+  path.strokeWidth = DIFF_OUTLINE_WIDTH;
+  ctx.save();
+  ctx.globalAlpha *= style.opacity ?? 1;
+  path.draw(ctx);
+  ctx.restore();
+};
+
+/**
+ * One page of the version diff: changed, added and removed glyphs, each labelled with its name and what changed.
+ * The header summarises every change, including kerning, metrics and name-table differences.
+ */
+export const drawFontDiff = (
+  ctx: CanvasRenderingContext2D,
+  before: LoadedFont,
+  after: LoadedFont,
+  diff: FontDiff,
+  view: FontDiffView,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const { left, top, layout } = getFontDiffArea(view, settings, width, height);
+  const glyphs = getDiffGlyphs(diff);
+  const pages = getCharmapPageCount(glyphs.length, layout);
+  const { start, end } = getCharmapPageRange(glyphs.length, layout, settings.page ?? 0);
+  const { cellWidth, cellHeight, glyphHeight, columns } = layout;
+  const fontSize = settings.fontSize;
+  const { ascender, descender, unitsPerEm } = after.font;
+  const baselineOffset = (glyphHeight + ((ascender + descender) * fontSize) / unitsPerEm) / 2;
+
+  fillBackground(ctx, settings, width, height);
+  const foreground = getSpecimenForeground(settings);
+  const padding = getSpecimenPadding(settings.size);
+
+  drawRowLabel(ctx, `舊版（紅）${before.fileName} · 新版 ${after.fileName}`, padding, padding + ROW_LABEL_HEIGHT / 2, foreground);
+  drawRowLabel(
+    ctx,
+    [
+      `輪廓 / 字寬 ${diff.changed.length}`,
+      `新增 ${diff.added.length}`,
+      `移除 ${diff.removed.length}`,
+      `字距 ${diff.kerning.length}`,
+      `度量 ${diff.metrics.length}`,
+      `名稱 ${diff.names.length}`,
+      `第 ${Math.floor(start / layout.perPage) + 1} / ${pages} 頁`,
+    ].join(' · '),
+    padding,
+    padding + ROW_LABEL_HEIGHT * 1.5,
+    foreground
+  );
+
+  if (glyphs.length === 0) {
+    drawRowLabel(ctx, '字形沒有差異', left, top + ROW_LABEL_HEIGHT / 2, foreground);
+  }
+
+  const drawCell = (glyph: GlyphDiff, x: number, y: number) => {
+    const baseline = y + baselineOffset;
+    if (view === 'overlay') {
+      const centerX = x + cellWidth / 2;
+      if (glyph.after !== undefined) {
+        drawDiffGlyph(ctx, after.font, glyph.after, centerX, baseline, fontSize, {
+          fill: foreground,
+          opacity: glyph.before === undefined ? 1 : DIFF_OVERLAY_FILL_OPACITY,
+        });
+      }
+      if (glyph.before !== undefined) {
+        drawDiffGlyph(ctx, before.font, glyph.before, centerX, baseline, fontSize, glyph.after === undefined
+          ? { fill: DIFF_BEFORE_COLOR }
+          : { stroke: DIFF_BEFORE_COLOR });
+      }
+    } else {
+      if (glyph.before !== undefined) {
+        drawDiffGlyph(ctx, before.font, glyph.before, x + cellWidth / 4, baseline, fontSize, { fill: DIFF_BEFORE_COLOR });
+      }
+      if (glyph.after !== undefined) {
+        drawDiffGlyph(ctx, after.font, glyph.after, x + (cellWidth * 3) / 4, baseline, fontSize, { fill: foreground });
+      }
+    }
+  };
+
+  for (let index = start; index < end; index++) {
+    const glyph = glyphs[index];
+    const position = index - start;
+    const x = left + (position % columns) * cellWidth;
+    const y = top + Math.floor(position / columns) * cellHeight;
+
+    ctx.save();
+    ctx.strokeStyle = foreground;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha *= CHARMAP_GRID_OPACITY;
+    ctx.strokeRect(x, y, cellWidth, cellHeight);
+    ctx.restore();
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, cellWidth, cellHeight);
+    ctx.clip();
+
+    drawCell(glyph, x, y);
+
+    ctx.fillStyle = foreground;
+    ctx.font = `${CHARMAP_LABEL_SIZE}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const labelX = x + cellWidth / 2;
+    const alpha = ctx.globalAlpha;
+    ctx.globalAlpha = alpha * CHARMAP_CODE_POINT_OPACITY;
+    ctx.fillText(truncateLabel(glyph.name, cellWidth - 4), labelX, y + glyphHeight + CHARMAP_LABEL_LINE / 2);
+    ctx.globalAlpha = alpha * ROW_LABEL_OPACITY;
+    ctx.fillText(describeGlyphDiff(glyph), labelX, y + glyphHeight + CHARMAP_LABEL_LINE * 1.5);
+    ctx.restore();
+  }
+};
+
+/**
+ * How far the wrapped text extends past the text area, in px; zero when it fits.
+ * The text area is the image inset by the size's padding left and right and its vertical padding top and bottom;
+ * the line boxes are centred in it.
+ */
+export type SpecimenOverflow = { x: number; y: number };
+
+export const hasOverflow = (overflow: SpecimenOverflow) => overflow.x > 0 || overflow.y > 0;
+
+// 一般字樣的排版：換行結果、行高與超出文字區域的量，繪製與自動調整共用
+const layoutSpecimenText = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  const padding = getSpecimenPadding(settings.size);
+  const maxWidth = width - padding * 2;
+  const maxHeight = height - getSpecimenVerticalPadding(settings.size) * 2;
+  const { align, anchorX, renderer } = createSpecimenRenderer(ctx, font, settings);
+  const lines = getWrappedLines(renderer, settings.text, maxWidth, isSingleLineSize(settings.size));
+  const lineBox = settings.fontSize * settings.lineHeight;
+  const lineWidths = lines.map(line => renderer.measure(line));
+  const overflow: SpecimenOverflow = {
+    x: Math.max(0, Math.max(0, ...lineWidths) - maxWidth),
+    y: Math.max(0, lines.length * lineBox - maxHeight),
+  };
+  // 第一行的垂直中心；上下內距相同，行框在文字區域與整張圖高度內的置中位置一致
+  const startY = (height - lines.length * lineBox) / 2 + lineBox / 2;
+  return { padding, maxWidth, align, anchorX, renderer, lines, lineWidths, lineBox, startY, overflow };
+};
+
+const measureOverflow = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  ctx.save();
+  try {
+    return layoutSpecimenText(ctx, font, settings, width, height).overflow;
+  } finally {
+    ctx.restore();
+  }
+};
+
+const MIN_FIT_FONT_SIZE = 6;
+const MAX_FIT_FONT_SIZE = 300;
+// 字距最多壓縮至字級的 -10%，再緊會使字形重疊
+const MIN_FIT_LETTER_SPACING_EM = -0.1;
+
+// 二分搜尋 [low, high] 間符合條件的最大整數；換行使結果近似單調，足以作為字級搜尋
+const findLargest = (low: number, high: number, test: (value: number) => boolean) => {
+  let best: number | null = null;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (test(mid)) {
+      best = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+};
+
+export type FitResult = {
+  fontSize: number;
+  letterSpacing: number;
+  /** Overflow remaining at the fitted values, e.g. when even the smallest size is too large. */
+  overflow: SpecimenOverflow;
+};
+
+/**
+ * The largest whole font size whose wrapped text fits the text area. With 'size-and-spacing' the letter
+ * spacing may tighten to -0.1em to allow a larger size, then loosens again as far as that size still fits.
+ * Values fixed by the size spec are kept. Without `settings.autoFit` this only reports the current overflow.
+ */
+export const fitSpecimenText = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+): FitResult => {
+  const overflowAt = (fontSize: number, letterSpacing: number) =>
+    measureOverflow(ctx, font, { ...settings, fontSize, letterSpacing }, width, height);
+
+  const { size, autoFit } = settings;
+  if (!autoFit || getSpecimenKind(size) !== 'text') {
+    return { fontSize: settings.fontSize, letterSpacing: settings.letterSpacing, overflow: overflowAt(settings.fontSize, settings.letterSpacing) };
+  }
+
+  const fitsAt = (fontSize: number, letterSpacing: number) => !hasOverflow(overflowAt(fontSize, letterSpacing));
+  const fitSpacing = autoFit === 'size-and-spacing' && size.fixedLetterSpacing === undefined;
+  const tightestSpacing = (fontSize: number) =>
+    fitSpacing ? Math.min(settings.letterSpacing, Math.floor(fontSize * MIN_FIT_LETTER_SPACING_EM)) : settings.letterSpacing;
+
+  const fontSize = size.fixedFontSize !== undefined
+    ? settings.fontSize
+    : findLargest(MIN_FIT_FONT_SIZE, MAX_FIT_FONT_SIZE, fs => fitsAt(fs, tightestSpacing(fs))) ?? MIN_FIT_FONT_SIZE;
+
+  const letterSpacing = fitSpacing
+    ? findLargest(tightestSpacing(fontSize), settings.letterSpacing, ls => fitsAt(fontSize, ls)) ?? tightestSpacing(fontSize)
+    : settings.letterSpacing;
+
+  return { fontSize, letterSpacing, overflow: overflowAt(fontSize, letterSpacing) };
+};
+
+/** `settings` with the auto-fitted font size and letter spacing for `font`; unchanged when auto-fit is off. */
+export const resolveAutoFit = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+): SpecimenSettings => {
+  if (!settings.autoFit || getSpecimenKind(settings.size) !== 'text') return settings;
+  const { fontSize, letterSpacing } = fitSpecimenText(ctx, font, settings, width, height);
+  return { ...settings, fontSize, letterSpacing };
+};
+
+// 以 em 方框判斷是否被截斷，行距的上下留白不計
+const isRowClipped = (middle: number, fontSize: number, top: number, bottom: number) =>
+  middle - fontSize / 2 < top || middle + fontSize / 2 > bottom;
+
+export type ClipCheckOptions = {
+  /** Checks a collage cell; `width` / `height` are then the cell size. */
+  inCollage?: boolean;
+  /** Number of fonts sharing a weight comparison, which sets its font size. */
+  comparisonCount?: number;
+};
+
+/**
+ * Lines cut off by the image edges or the collage cell clip, following the same layout as the draw functions.
+ * Waterfall and comparison rows count when wider than their column.
+ */
+export const countClippedLines = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number,
+  { inCollage = false, comparisonCount = 1 }: ClipCheckOptions = {}
+): number => {
+  const padding = getSpecimenPadding(settings.size);
+  const kind = getSpecimenKind(settings.size);
+  // 字元表與字距校樣的格子由版面分頁，不會裁切
+  if (isPagedSpecimenKind(kind)) return 0;
+  ctx.save();
+  try {
+    if (kind === 'waterfall' || kind === 'comparison') {
+      const sizes = kind === 'waterfall'
+        ? settings.size.waterfallSizes ?? DEFAULT_WATERFALL_SIZES
+        : [getComparisonFontSize(comparisonCount, settings, height)];
+      const columnWidth = width - padding * 2 - (kind === 'waterfall' ? WATERFALL_LABEL_WIDTH : 0);
+      const rowHeights = sizes.map(fontSize => (kind === 'comparison' ? ROW_LABEL_HEIGHT : 0) + fontSize * settings.lineHeight);
+      // 字重比較只檢查此字體的一列，垂直方向已由 getComparisonFontSize 縮小字級確保放得下
+      let y = (height - rowHeights.reduce((sum, h) => sum + h, 0)) / 2;
+      return sizes.filter((fontSize, index) => {
+        const { renderer } = createSpecimenRenderer(ctx, font, { ...settings, fontSize });
+        const middle = y + rowHeights[index] - (fontSize * settings.lineHeight) / 2;
+        y += rowHeights[index];
+        return renderer.measure(settings.text) > columnWidth || isRowClipped(middle, fontSize, 0, height);
+      }).length;
+    }
+
+    const labelHeight = inCollage ? getCollageLabelHeight(height) : 0;
+    const inset = inCollage ? COLLAGE_CELL_CLIP_INSET : 0;
+    const fitted = resolveAutoFit(ctx, font, settings, width, height - labelHeight);
+    const { maxWidth, align, lines, lineWidths, lineBox } = layoutSpecimenText(ctx, font, fitted, width, height - labelHeight);
+    const startY = (height + labelHeight - lines.length * lineBox) / 2 + lineBox / 2;
+    // 行寬超出內距的部分落在左右留白內仍可見，超過留白（扣除格子裁切）才會被截斷
+    const slack = padding - inset;
+    return lines.filter((_, index) => {
+      const excess = lineWidths[index] - maxWidth;
+      const clippedX = align === 'center' ? excess / 2 > slack : excess > slack;
+      return clippedX || isRowClipped(startY + index * lineBox, fitted.fontSize, labelHeight + inset, height - inset);
+    }).length;
+  } finally {
+    ctx.restore();
+  }
+};
+
+// 度量參考線：上緣、大寫字高、x 字高、基線與下緣取自字體度量，另標出左右內距與每行的行框
+export const METRIC_GUIDE_COLORS = {
+  ascender: '#2563eb',
+  capHeight: '#7c3aed',
+  xHeight: '#0891b2',
+  baseline: '#e11d48',
+  descender: '#d97706',
+  padding: '#64748b',
+  lineBox: '#16a34a',
+};
+
+const METRIC_GUIDE_LABEL_SIZE = 9;
+const METRIC_GUIDE_LABEL_GAP = 4;
+
+const drawGuides = (ctx: CanvasRenderingContext2D, font: LoadedFont, settings: SpecimenSettings, width: number, height: number) => {
+  ctx.save();
+  const { padding, align, anchorX, lines, lineWidths, lineBox, startY } = layoutSpecimenText(ctx, font, settings, width, height);
+  const scale = settings.fontSize / font.font.unitsPerEm;
+  // 與字形繪製相同：'middle' 位於上緣與下緣的正中間
+  const middleToBaseline = ((font.font.ascender + font.font.descender) / 2) * scale;
+  const xHeight = getXHeight(font.font);
+  const capHeight = getCapHeight(font.font);
+  const metrics = [
+    { label: 'asc', color: METRIC_GUIDE_COLORS.ascender, offset: -font.font.ascender * scale },
+    { label: 'cap', color: METRIC_GUIDE_COLORS.capHeight, offset: capHeight === null ? null : -capHeight * scale },
+    { label: 'x', color: METRIC_GUIDE_COLORS.xHeight, offset: xHeight === null ? null : -xHeight * scale },
+    { label: 'base', color: METRIC_GUIDE_COLORS.baseline, offset: 0 },
+    { label: 'desc', color: METRIC_GUIDE_COLORS.descender, offset: -font.font.descender * scale },
+  ];
+  const right = width - padding;
+  const anchor = anchorX(padding, right);
+  const horizontal = (y: number, left: number, lineRight: number) => {
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(lineRight, y);
+    ctx.stroke();
+  };
+
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = METRIC_GUIDE_COLORS.padding;
+  ctx.strokeRect(padding, 0, right - padding, height);
+
+  ctx.strokeStyle = METRIC_GUIDE_COLORS.lineBox;
+  lines.forEach((_, index) => {
+    const lineWidth = lineWidths[index];
+    const left = align === 'right' ? anchor - lineWidth : align === 'center' ? anchor - lineWidth / 2 : anchor;
+    ctx.strokeRect(left, startY + index * lineBox - lineBox / 2, lineWidth, lineBox);
+  });
+
+  ctx.setLineDash([]);
+  ctx.font = `${METRIC_GUIDE_LABEL_SIZE}px sans-serif`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  lines.forEach((_, index) => {
+    const baseline = startY + index * lineBox + middleToBaseline;
+    for (const metric of metrics) {
+      if (metric.offset === null) continue;
+      ctx.strokeStyle = metric.color;
+      horizontal(baseline + metric.offset, padding, right);
+      // 標籤只寫在第一行左側的內距裡，避免多行時重疊
+      if (index === 0) {
+        ctx.fillStyle = metric.color;
+        ctx.fillText(metric.label, padding - METRIC_GUIDE_LABEL_GAP, baseline + metric.offset);
+      }
+    }
+  });
+  ctx.restore();
+};
+
+/**
+ * Draws the metric guides of a text specimen: ascender, cap height, x-height, baseline and descender
+ * for every line, the padding box and each line's box from the wrapped layout.
+ * Used for the preview overlay on its own canvas and burnt into exports when `settings.metricGuides` is on.
+ */
+export const drawMetricGuides = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  if (getSpecimenKind(settings.size) !== 'text') return;
+  drawGuides(ctx, font, resolveAutoFit(ctx, font, settings, width, height), width, height);
+};
+
+export const drawSingleFont = (
+  ctx: CanvasRenderingContext2D,
+  font: LoadedFont,
+  settings: SpecimenSettings,
+  width: number,
+  height: number
+) => {
+  switch (getSpecimenKind(settings.size)) {
+    case 'waterfall':
+      drawWaterfall(ctx, font, settings, width, height);
+      return;
+    case 'comparison':
+      drawWeightComparison(ctx, [font], settings, width, height);
+      return;
+    case 'charmap':
+      drawCharmap(ctx, font, settings, width, height);
+      return;
+    case 'kerning':
+      drawKerningProof(ctx, font, settings, width, height);
+      return;
+  }
+
+  // Background
+  fillBackground(ctx, settings, width, height);
+
+  // Set font styles
+  ctx.fillStyle = getSpecimenForeground(settings);
+  const fitted = resolveAutoFit(ctx, font, settings, width, height);
+  const { padding, anchorX, renderer, lines, lineBox, startY } = layoutSpecimenText(ctx, font, fitted, width, height);
+
+  // Alignment
+  const xPos = anchorX(padding, width - padding);
+
+  lines.forEach((line, index) => {
+    renderer.fillText(line, xPos, startY + index * lineBox);
+  });
+
+  if (settings.metricGuides) {
+    drawGuides(ctx, font, fitted, width, height);
+  }
+
+  if (settings.showCopyright) {
+    drawCopyright(ctx, font, settings, width, height);
+  }
+};
+
+// 組合合併的每格字樣裁切於格子內縮 5px 處
+const COLLAGE_CELL_CLIP_INSET = 5;
+
+const COLLAGE_LABEL_BAR_OPACITY = 0.024;
+const COLLAGE_LABEL_TEXT_OPACITY = 0.8;
+
+const getCollageLabelFontSize = (cellHeight: number) => Math.max(14, Math.min(48, Math.round(cellHeight * 0.08)));
+
+/** Height of the file-name label at the top of each collage cell; the specimen is centred below it. */
+export const getCollageLabelHeight = (cellHeight: number) => Math.round(getCollageLabelFontSize(cellHeight) * 1.8);
+
+export const drawCollage = (
+  ctx: CanvasRenderingContext2D,
+  collageFonts: LoadedFont[],
+  settings: SpecimenSettings,
+  totalWidth: number,
+  totalHeight: number,
+  cellWidth: number,
+  cellHeight: number,
+  scale: number = 1,
+  options: CollageOptions = DEFAULT_COLLAGE_OPTIONS
+) => {
+  ctx.save();
+  fillBackground(ctx, settings, totalWidth, totalHeight);
+  const foreground = getSpecimenForeground(settings);
+
+  // Scale everything if we capped at 5000px
+  ctx.scale(scale, scale);
+
+  const { cols } = getCollageGrid(collageFonts.length, options);
+  const { gutter, margin } = options;
+
+  for (let i = 0; i < collageFonts.length; i++) {
+    const f = collageFonts[i];
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+
+    const x = margin + col * (cellWidth + gutter);
+    const y = margin + row * (cellHeight + gutter);
+
+    // Draw cell border
+    if (options.borderStyle !== 'none' && options.borderWidth > 0) {
+      ctx.strokeStyle = options.borderColor;
+      ctx.lineWidth = options.borderWidth;
+      ctx.setLineDash(options.borderStyle === 'dashed' ? [options.borderWidth * 6, options.borderWidth * 4] : []);
+      ctx.strokeRect(x, y, cellWidth, cellHeight);
+      ctx.setLineDash([]);
+    }
+
+    // Draw Font Label
+    const labelFontSize = getCollageLabelFontSize(cellHeight);
+    const labelHeight = getCollageLabelHeight(cellHeight);
+
+    const workName = f.fileName.replace(/\.[^/.]+$/, '');
+
+    // 標籤列與標籤文字以文字色的淡色繪製，黑字時即為 #f9f9f9 與 #333333
+    ctx.save();
+    ctx.fillStyle = foreground;
+    if (settings.showCopyright) {
+      // 以格子標籤字級為基準，依設定檔字級相對於預設值等比縮放
+      const profileFontSize = (settings.copyright ?? DEFAULT_COPYRIGHT_STYLE).profile.fontSize;
+      ctx.globalAlpha = COLLAGE_LABEL_TEXT_OPACITY;
+      drawCopyrightInfo(ctx, { x, y, width: cellWidth, height: cellHeight }, f.fileName, getSpecimenDirection(settings), settings.copyright, {
+        fontSize: labelFontSize * (profileFontSize / DEFAULT_COPYRIGHT_FONT_SIZE),
+        bold: true,
+        color: foreground,
+      });
+    } else {
+      ctx.globalAlpha = COLLAGE_LABEL_BAR_OPACITY;
+      ctx.fillRect(x + 2, y + 2, cellWidth - 4, labelHeight);
+
+      ctx.globalAlpha = COLLAGE_LABEL_TEXT_OPACITY;
+      ctx.font = `bold ${labelFontSize}px sans-serif`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+
+      ctx.fillText(
+        workName,
+        x + labelFontSize * 0.75,
+        y + labelHeight / 2 + 2
+      );
+    }
+    ctx.restore();
+
+    // Draw Specimen
+    ctx.save();
+    // Clip to cell to prevent overlap
+    ctx.beginPath();
+    ctx.rect(
+      x + COLLAGE_CELL_CLIP_INSET,
+      y + labelHeight + COLLAGE_CELL_CLIP_INSET,
+      cellWidth - COLLAGE_CELL_CLIP_INSET * 2,
+      cellHeight - labelHeight - COLLAGE_CELL_CLIP_INSET * 2
+    );
+    ctx.clip();
+
+    ctx.fillStyle = foreground;
+    // 自動調整以標籤下方的區域為準，每格依各自字體的字寬計算
+    const textAreaHeight = cellHeight - labelHeight;
+    const fitted = resolveAutoFit(ctx, f, settings, cellWidth, textAreaHeight);
+    const { padding, anchorX, renderer, lines, lineBox } = layoutSpecimenText(ctx, f, fitted, cellWidth, textAreaHeight);
+    const xPos = anchorX(x + padding, x + cellWidth - padding);
+
+    const totalLinesHeight = lines.length * lineBox;
+    const startY = y + (cellHeight + labelHeight - totalLinesHeight) / 2 + lineBox / 2;
+
+    lines.forEach((line, index) => {
+      renderer.fillText(line, xPos, startY + index * lineBox);
+    });
+
+    ctx.restore();
+  }
+
+  // 浮水印鋪滿整張組合圖，而非逐格重複
+  if (settings.showCopyright) {
+    drawWatermark(ctx, { x: 0, y: 0, width: totalWidth / scale, height: totalHeight / scale }, settings.copyright, foreground);
+  }
+  ctx.restore();
+};
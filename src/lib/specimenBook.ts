@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 多頁 PDF 字樣圖冊：封面、目錄、每款字體一頁（列出所有語言預設字樣與 name table 資訊）
+// 頁面以 canvas 繪製後嵌入 PDF（jsPDF 內建字型無法顯示中文標籤）；字樣區塊沿用 drawSingleFont 排版
+
+import { jsPDF } from 'jspdf';
+import { ImageSize, LanguagePreset } from './presets';
+import { LoadedFont, SpecimenSettings, SPECIMEN_PADDING, drawSingleFont, getWrappedLines, getFontTitle } from './specimen';
+import { CopyrightStyle, drawCopyrightInfo, drawWatermark } from './copyright';
+import { createTextRenderer, RenderMode } from './textRenderer';
+import { getFontMetadata } from './fontMetadata';
+import { getMissingCodePoints } from './coverage';
+
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+export type SpecimenBookOptions = {
+  title: string;
+  presets: LanguagePreset[];
+  fontSize: number;
+  lineHeight: number;
+  letterSpacing: number;
+  renderMode: RenderMode;
+  showCopyright: boolean;
+  /** Profile for the copyright block and watermark; the built-in profile when absent. */
+  copyright?: CopyrightStyle;
+  createCanvas: CanvasFactory;
+};
+
+// A4 直式 @150dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 96;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN;
+
+const HEADER_HEIGHT = 250;
+const CONTINUED_HEADER_HEIGHT = 80;
+const LABEL_HEIGHT = 32;
+const BLOCK_GAP = 28;
+const BLOCK_PADDING = 24;
+
+const TOC_TOP = MARGIN + 140;
+const TOC_ROW_HEIGHT = 44;
+const TOC_ROWS_PER_PAGE = Math.floor((CONTENT_BOTTOM - TOC_TOP) / TOC_ROW_HEIGHT);
+
+const INK = '#141414';
+const MUTED = '#8a8a86';
+
+// 每頁之間讓出主執行緒，字體多時瀏覽器仍能更新畫面
+const yieldToMainThread = () => new Promise<void>(resolve => setTimeout(resolve));
+
+type Block = { preset: LanguagePreset; height: number; missing: number };
+type FontPage = { font: LoadedFont; blocks: Block[]; continued: boolean };
+
+const getContext = (canvas: HTMLCanvasElement) => canvas.getContext('2d') as CanvasRenderingContext2D;
+
+const createPage = (options: SpecimenBookOptions) => {
+  const canvas = options.createCanvas(PAGE_WIDTH, PAGE_HEIGHT);
+  const ctx = getContext(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  return { canvas, ctx };
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number, color = INK, weight = '') => {
+  ctx.fillStyle = color;
+  ctx.font = `${weight} ${size}px sans-serif`.trim();
+  (ctx as any).letterSpacing = '0px';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText(text, x, y);
+};
+
+const truncate = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let result = text;
+  while (result.length > 0 && ctx.measureText(`${result}…`).width > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}…`;
+};
+
+const drawFooter = (ctx: CanvasRenderingContext2D, pageNumber: number, title: string) => {
+  ctx.fillStyle = MUTED;
+  ctx.font = '16px sans-serif';
+  ctx.textBaseline = 'bottom';
+  ctx.textAlign = 'left';
+  ctx.fillText(title, MARGIN, PAGE_HEIGHT - MARGIN / 2);
+  ctx.textAlign = 'right';
+  ctx.fillText(String(pageNumber), PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2);
+};
+
+/** Splits each font's preset blocks into pages, measuring wrapped lines with the same rules as drawSingleFont. */
+const paginate = (fonts: LoadedFont[], options: SpecimenBookOptions): FontPage[] => {
+  const scratch = getContext(options.createCanvas(1, 1));
+  const pages: FontPage[] = [];
+  const lineBox = options.fontSize * options.lineHeight;
+
+  for (const font of fonts) {
+    const renderer = createTextRenderer(scratch, font, options.renderMode, {
+      fontSize: options.fontSize,
+      letterSpacing: options.letterSpacing,
+      align: 'left',
+      direction: 'ltr',
+    });
+
+    let page: FontPage = { font, blocks: [], continued: false };
+    let y = MARGIN + HEADER_HEIGHT;
+
+    for (const preset of options.presets) {
+      const lines = getWrappedLines(renderer, preset.content, CONTENT_WIDTH - SPECIMEN_PADDING * 2, false);
+      const height = Math.ceil(lines.length * lineBox + BLOCK_PADDING * 2);
+      const needed = LABEL_HEIGHT + height;
+
+      if (y + needed > CONTENT_BOTTOM && page.blocks.length > 0) {
+        pages.push(page);
+        page = { font, blocks: [], continued: true };
+        y = MARGIN + CONTINUED_HEADER_HEIGHT;
+      }
+      page.blocks.push({ preset, height, missing: getMissingCodePoints(font.font, preset.content).length });
+      y += needed + BLOCK_GAP;
+    }
+    pages.push(page);
+  }
+  return pages;
+};
+
+const drawCover = (fonts: LoadedFont[], options: SpecimenBookOptions) => {
+  const { canvas, ctx } = createPage(options);
+
+  ctx.fillStyle = INK;
+  ctx.fillRect(MARGIN, MARGIN, 6, 220);
+
+  ctx.fillStyle = INK;
+  ctx.font = 'italic 64px serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText(options.title, MARGIN + 40, MARGIN + 10);
+
+  drawLabel(ctx, 'SPECIMEN BOOK', MARGIN + 40, MARGIN + 130, 22, MUTED);
+  drawLabel(ctx, new Date().toISOString().slice(0, 10), MARGIN + 40, MARGIN + 170, 22, MUTED);
+
+  let y = PAGE_HEIGHT / 2;
+  drawLabel(ctx, `收錄字體 (${fonts.length})`, MARGIN, y, 20, MUTED);
+  y += 44;
+  ctx.font = '28px sans-serif';
+  for (const font of fonts.slice(0, 16)) {
+    drawLabel(ctx, truncate(ctx, getFontTitle(font), CONTENT_WIDTH), MARGIN, y, 28);
+    y += 44;
+  }
+  if (fonts.length > 16) {
+    drawLabel(ctx, `… +${fonts.length - 16}`, MARGIN, y, 24, MUTED);
+  }
+
+  drawLabel(ctx, `語言：${options.presets.map(p => p.name).join('、')}`, MARGIN, CONTENT_BOTTOM - 40, 18, MUTED);
+  return canvas;
+};
+
+type TocLink = { x: number; y: number; width: number; height: number; pageNumber: number };
+
+const drawTocPage = (
+  entries: { title: string; fileName: string; pageNumber: number }[],
+  pageIndex: number,
+  pageNumber: number,
+  options: SpecimenBookOptions
+) => {
+  const { canvas, ctx } = createPage(options);
+  const links: TocLink[] = [];
+
+  drawLabel(ctx, pageIndex === 0 ? '目錄 Contents' : '目錄 Contents（續）', MARGIN, MARGIN, 44, INK, 'bold');
+
+  entries.forEach((entry, i) => {
+    const y = TOC_TOP + i * TOC_ROW_HEIGHT;
+    ctx.font = '24px sans-serif';
+    const title = truncate(ctx, entry.title, CONTENT_WIDTH - 420);
+    drawLabel(ctx, title, MARGIN, y, 24);
+    const titleWidth = ctx.measureText(title).width;
+    ctx.font = '16px sans-serif';
+    drawLabel(ctx, truncate(ctx, entry.fileName, 300), MARGIN + titleWidth + 16, y + 6, 16, MUTED);
+
+    ctx.fillStyle = INK;
+    ctx.font = '24px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillText(String(entry.pageNumber), PAGE_WIDTH - MARGIN, y);
+
+    links.push({ x: MARGIN, y, width: CONTENT_WIDTH, height: TOC_ROW_HEIGHT - 8, pageNumber: entry.pageNumber });
+  });
+
+  drawFooter(ctx, pageNumber, options.title);
+  return { canvas, links };
+};
+
+const drawFontPage = (page: FontPage, pageNumber: number, options: SpecimenBookOptions) => {
+  const { canvas, ctx } = createPage(options);
+  const { font } = page;
+  const metadata = getFontMetadata(font.font);
+  let y = MARGIN;
+
+  if (page.continued) {
+    drawLabel(ctx, `${getFontTitle(font)}（續）`, MARGIN, y, 28, INK, 'bold');
+    y += CONTINUED_HEADER_HEIGHT;
+  } else {
+    ctx.font = 'bold 44px sans-serif';
+    drawLabel(ctx, truncate(ctx, getFontTitle(font), CONTENT_WIDTH), MARGIN, y, 44, INK, 'bold');
+    drawLabel(ctx, font.fileName, MARGIN, y + 60, 18, MUTED);
+
+    const rows: [string, string][] = [
+      ['版本 Version', metadata.version],
+      ['設計師 Designer', metadata.designer],
+      ['字形數 Glyphs', String(metadata.glyphCount)],
+      ['授權 License', metadata.license],
+    ];
+    rows.forEach(([label, value], i) => {
+      const rowY = y + 104 + i * 28;
+      drawLabel(ctx, label, MARGIN, rowY, 16, MUTED);
+      ctx.font = '16px sans-serif';
+      drawLabel(ctx, truncate(ctx, value || '—', CONTENT_WIDTH - 200), MARGIN + 200, rowY, 16);
+    });
+
+    ctx.fillStyle = '#e5e5e5';
+    ctx.fillRect(MARGIN, y + HEADER_HEIGHT - 24, CONTENT_WIDTH, 1);
+    y += HEADER_HEIGHT;
+
+    if (options.showCopyright) {
+      drawCopyrightInfo(ctx, { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT }, font.fileName, 'ltr', options.copyright);
+    }
+  }
+
+  for (const block of page.blocks) {
+    const label = block.missing > 0 ? `${block.preset.name} — 缺 ${block.missing} 字` : block.preset.name;
+    drawLabel(ctx, label, MARGIN, y, 16, block.missing > 0 ? '#b45309' : MUTED);
+    y += LABEL_HEIGHT;
+
+    const size: ImageSize = { width: CONTENT_WIDTH, height: block.height, label: 'book', isCustom: true };
+    const settings: SpecimenSettings = {
+      size,
+      languageId: block.preset.id,
+      text: block.preset.content,
+      direction: block.preset.direction,
+      fontSize: options.fontSize,
+      lineHeight: options.lineHeight,
+      letterSpacing: options.letterSpacing,
+      renderMode: options.renderMode,
+      showCopyright: false,
+    };
+    const blockCanvas = options.createCanvas(size.width, size.height);
+    drawSingleFont(getContext(blockCanvas), font, settings, size.width, size.height);
+    ctx.drawImage(blockCanvas, MARGIN, y);
+
+    ctx.strokeStyle = '#e5e5e5';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(MARGIN + 0.5, y + 0.5, size.width - 1, size.height - 1);
+    y += block.height + BLOCK_GAP;
+  }
+
+  // 浮水印鋪滿字體的每一頁，包含續頁
+  if (options.showCopyright) {
+    drawWatermark(ctx, { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT }, options.copyright);
+  }
+
+  drawFooter(ctx, pageNumber, options.title);
+  return canvas;
+};
+
+export const createSpecimenBook = async (fonts: LoadedFont[], options: SpecimenBookOptions) => {
+  const fontPages = paginate(fonts, options);
+  const tocPageCount = Math.max(1, Math.ceil(fonts.length / TOC_ROWS_PER_PAGE));
+  const firstFontPage = 2 + tocPageCount;
+
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'px', format: [PAGE_WIDTH, PAGE_HEIGHT] });
+  const addPage = (canvas: HTMLCanvasElement, isFirst = false) => {
+    if (!isFirst) pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT], 'portrait');
+    // 'FAST' 啟用 Flate 壓縮，否則 jsPDF 以未壓縮像素嵌入整頁圖片
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, PAGE_WIDTH, PAGE_HEIGHT, undefined, 'FAST');
+  };
+
+  addPage(drawCover(fonts, options), true);
+
+  const tocEntries = fonts.map(font => ({
+    title: getFontTitle(font),
+    fileName: font.fileName,
+    pageNumber: firstFontPage + fontPages.findIndex(page => page.font === font),
+  }));
+  for (let i = 0; i < tocPageCount; i++) {
+    const entries = tocEntries.slice(i * TOC_ROWS_PER_PAGE, (i + 1) * TOC_ROWS_PER_PAGE);
+    const { canvas, links } = drawTocPage(entries, i, 2 + i, options);
+    addPage(canvas);
+    links.forEach(link => pdf.link(link.x, link.y, link.width, link.height, { pageNumber: link.pageNumber }));
+  }
+
+  for (const [i, page] of fontPages.entries()) {
+    await yieldToMainThread();
+    addPage(drawFontPage(page, firstFontPage + i, options));
+  }
+
+  return pdf;
+};
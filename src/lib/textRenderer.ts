@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as opentype from 'opentype.js';
+import { VariationSettings, getVariationFontPrefix } from './variations';
+import { FeatureSettings, getFeatureGlyphs } from './features';
+import { TextDirection, BidiRun, getBidiRuns } from './bidi';
+
+// 'canvas' 交由瀏覽器排版 (ctx.fillText)，'glyph' 直接以 opentype.js 字形路徑繪製
+export type RenderMode = 'canvas' | 'glyph';
+
+export type TextStyle = {
+  fontSize: number;
+  letterSpacing: number;
+  align: 'left' | 'center' | 'right';
+  direction: TextDirection;
+  /** Variable-font axis values; only the canvas renderer applies them, glyph paths stay at the default instance. */
+  variation?: VariationSettings;
+  /** GSUB features switched on or off; only the glyph renderer applies them, the canvas keeps browser defaults. */
+  features?: FeatureSettings;
+};
+
+export type TextRenderer = {
+  measure: (text: string) => number;
+  /** Draws `text` vertically centred on `y` (textBaseline 'middle'), anchored at `x` per `style.align`. */
+  fillText: (text: string, x: number, y: number) => void;
+};
+
+const createCanvasRenderer = (
+  ctx: CanvasRenderingContext2D,
+  fontFamily: string,
+  style: TextStyle
+): TextRenderer => {
+  ctx.font = `${getVariationFontPrefix(style.variation)}${style.fontSize}px "${fontFamily}"`;
+  (ctx as any).letterSpacing = `${style.letterSpacing}px`;
+  ctx.textBaseline = 'middle';
+  ctx.direction = style.direction;
+  ctx.textAlign = style.align;
+
+  return {
+    measure: text => ctx.measureText(text).width,
+    fillText: (text, x, y) => ctx.fillText(text, x, y),
+  };
+};
+
+// opentype.js 與其阿拉伯文字形判斷一致：只會自行反轉阿拉伯字母序列
+const ARABIC_CHARS = /[\u0600-\u065F\u066A-\u06D2\u06FA-\u06FF]+/g;
+
+/** Glyphs of one bidi run in visual order; right-to-left text other than Arabic letters is reversed here. */
+const shapeRun = (font: opentype.Font, run: BidiRun, features?: FeatureSettings): opentype.Glyph[] => {
+  if (run.direction === 'ltr') return getFeatureGlyphs(font, run.text, features);
+
+  const chunks: { text: string; isArabic: boolean }[] = [];
+  let last = 0;
+  for (const match of run.text.matchAll(ARABIC_CHARS)) {
+    if (match.index! > last) chunks.push({ text: run.text.slice(last, match.index), isArabic: false });
+    chunks.push({ text: match[0], isArabic: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < run.text.length) chunks.push({ text: run.text.slice(last), isArabic: false });
+
+  return chunks.reverse().flatMap(chunk => {
+    const glyphs = getFeatureGlyphs(font, chunk.text, features);
+    return chunk.isArabic ? glyphs : glyphs.reverse();
+  });
+};
+
+const createGlyphRenderer = (
+  ctx: CanvasRenderingContext2D,
+  font: opentype.Font,
+  style: TextStyle
+): TextRenderer => {
+  const { fontSize } = style;
+  const scale = fontSize / font.unitsPerEm;
+  // Canvas 'middle' sits halfway between the ascender and descender lines
+  const middleToBaseline = ((font.ascender + font.descender) / 2) * scale;
+  const kerningLookups = font.position.getKerningTables(font.position.getDefaultScriptName());
+
+  // Same advance rules as opentype.js's forEachGlyph, but over the feature-substituted glyphs in visual order
+  const layout = (text: string) => {
+    const glyphs = getBidiRuns(text, style.direction).flatMap(run => shapeRun(font, run, style.features));
+    const offsets: number[] = [];
+    let x = 0;
+    glyphs.forEach((glyph, i) => {
+      offsets.push(x);
+      x += (glyph.advanceWidth ?? 0) * scale;
+      if (i < glyphs.length - 1) {
+        const kerning = kerningLookups
+          ? font.position.getKerningValue(kerningLookups, glyph.index, glyphs[i + 1].index)
+          : font.getKerningValue(glyph, glyphs[i + 1]);
+        x += kerning * scale;
+      }
+      x += style.letterSpacing;
+    });
+    return { glyphs, offsets, width: x };
+  };
+
+  return {
+    measure: text => layout(text).width,
+    fillText: (text, x, y) => {
+      if (text.length === 0) return;
+      const { glyphs, offsets, width } = layout(text);
+      const startX = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x;
+      const path = new opentype.Path();
+      glyphs.forEach((glyph, i) => path.extend(glyph.getPath(startX + offsets[i], y + middleToBaseline, fontSize)));
+      path.fill = ctx.fillStyle;
+      path.draw(ctx);
+    },
+  };
+};
+
+export const createTextRenderer = (
+  ctx: CanvasRenderingContext2D,
+  font: { font: opentype.Font; fontFamily: string },
+  mode: RenderMode,
+  style: TextStyle
+): TextRenderer =>
+  mode === 'glyph'
+    ? createGlyphRenderer(ctx, font.font, style)
+    : createCanvasRenderer(ctx, font.fontFamily, style);
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 字樣圖配色：文字色、背景（純色 / 漸層 / 透明），以及無透明度格式 (JPG) 的底色
+
+import { ImageSize } from './presets';
+import { ExportFormat } from './export';
+
+// angle：漸層方向（度），0 為由左至右，90 為由上至下
+export type SpecimenBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number }
+  | { type: 'transparent' };
+
+export type SpecimenTheme = {
+  foreground: string;
+  /** Overrides the size's background; absent keeps it (white unless a template sets one). */
+  background?: SpecimenBackground;
+  /** Fills transparent backgrounds in formats without alpha, i.e. JPG. */
+  matte: string;
+};
+
+export const DEFAULT_THEME: SpecimenTheme = { foreground: '#000000', matte: '#ffffff' };
+
+export const THEME_PRESETS: { id: string; label: string; theme: SpecimenTheme }[] = [
+  { id: 'default', label: '預設', theme: DEFAULT_THEME },
+  { id: 'inverse', label: '反白', theme: { foreground: '#ffffff', background: { type: 'solid', color: '#141414' }, matte: '#141414' } },
+  { id: 'transparent', label: '透明', theme: { foreground: '#000000', background: { type: 'transparent' }, matte: '#ffffff' } },
+];
+
+export const BACKGROUND_TYPES: SpecimenBackground['type'][] = ['solid', 'gradient', 'transparent'];
+
+export class ThemeFormatError extends Error {}
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const parseColor = (value: unknown, key: string) => {
+  if (typeof value !== 'string' || !HEX_COLOR_PATTERN.test(value)) {
+    throw new ThemeFormatError(`"${key}" must be a colour such as "#ffffff"`);
+  }
+  return value;
+};
+
+/** Validates a theme read from JSON; omitted colours fall back to black on the size's background. */
+export const parseSpecimenTheme = (input: unknown): SpecimenTheme => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ThemeFormatError('A theme must be a JSON object');
+  }
+  const value = input as Record<string, unknown>;
+
+  let background: SpecimenBackground | undefined;
+  if (value.background !== undefined) {
+    const source = value.background as Record<string, unknown>;
+    if (typeof source !== 'object' || source === null || !BACKGROUND_TYPES.includes(source.type as SpecimenBackground['type'])) {
+      throw new ThemeFormatError(`"background.type" must be one of ${BACKGROUND_TYPES.join(', ')}`);
+    }
+    if (source.type === 'solid') {
+      background = { type: 'solid', color: parseColor(source.color, 'background.color') };
+    } else if (source.type === 'gradient') {
+      const angle = source.angle ?? 90;
+      if (typeof angle !== 'number' || !Number.isFinite(angle)) throw new ThemeFormatError('"background.angle" must be a number');
+      background = {
+        type: 'gradient',
+        from: parseColor(source.from, 'background.from'),
+        to: parseColor(source.to, 'background.to'),
+        angle,
+      };
+    } else {
+      background = { type: 'transparent' };
+    }
+  }
+
+  return {
+    foreground: value.foreground === undefined ? DEFAULT_THEME.foreground : parseColor(value.foreground, 'foreground'),
+    background,
+    matte: value.matte === undefined ? DEFAULT_THEME.matte : parseColor(value.matte, 'matte'),
+  };
+};
+
+export const resolveBackground = (theme: SpecimenTheme = DEFAULT_THEME, size: ImageSize): SpecimenBackground =>
+  theme.background ?? { type: 'solid', color: size.background ?? '#ffffff' };
+
+/** JPG has no alpha: a transparent background becomes the matte colour, so the preview matches the file. */
+export const getExportTheme = (theme: SpecimenTheme, format: ExportFormat): SpecimenTheme =>
+  format === 'jpg' && theme.background?.type === 'transparent'
+    ? { ...theme, background: { type: 'solid', color: theme.matte } }
+    : theme;
+
+/** Clears the area, then fills it with the background; transparent leaves it cleared. */
+export const paintBackground = (
+  ctx: CanvasRenderingContext2D,
+  background: SpecimenBackground,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  ctx.clearRect(x, y, width, height);
+  if (background.type === 'transparent') return;
+
+  if (background.type === 'solid') {
+    ctx.fillStyle = background.color;
+  } else {
+    // 漸層線穿過中心，長度取矩形在該方向上的投影，使兩端顏色落在角落
+    const radians = (background.angle * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const gradient = ctx.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half);
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(x, y, width, height);
+};
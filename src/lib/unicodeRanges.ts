@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// OS/2 ulUnicodeRange1–4 的位元定義（OpenType 規格），用來比對字體宣告的範圍與 cmap 實際收錄的字元
+
+import * as opentype from 'opentype.js';
+
+type UnicodeRangeBit = {
+  bit: number;
+  name: string;
+  /** Inclusive code point blocks counted towards the bit. */
+  blocks: [number, number][];
+};
+
+export type UnicodeRangeCoverage = {
+  bit: number;
+  name: string;
+  /** Set in the font's OS/2 ulUnicodeRange fields. */
+  declared: boolean;
+  /** Code points in the bit's blocks that cmap maps to a glyph. */
+  codePoints: number;
+  /** Total code points in the bit's blocks. */
+  total: number;
+};
+
+const UNICODE_RANGE_BITS: UnicodeRangeBit[] = [
+  { bit: 0, name: 'Basic Latin', blocks: [[0x0000, 0x007f]] },
+  { bit: 1, name: 'Latin-1 Supplement', blocks: [[0x0080, 0x00ff]] },
+  { bit: 2, name: 'Latin Extended-A', blocks: [[0x0100, 0x017f]] },
+  { bit: 3, name: 'Latin Extended-B', blocks: [[0x0180, 0x024f]] },
+  { bit: 4, name: 'IPA Extensions', blocks: [[0x0250, 0x02af], [0x1d00, 0x1dbf]] },
+  { bit: 5, name: 'Spacing Modifier Letters', blocks: [[0x02b0, 0x02ff], [0xa700, 0xa71f]] },
+  { bit: 6, name: 'Combining Diacritical Marks', blocks: [[0x0300, 0x036f], [0x1dc0, 0x1dff]] },
+  { bit: 7, name: 'Greek and Coptic', blocks: [[0x0370, 0x03ff]] },
+  { bit: 8, name: 'Coptic', blocks: [[0x2c80, 0x2cff]] },
+  { bit: 9, name: 'Cyrillic', blocks: [[0x0400, 0x052f], [0x2de0, 0x2dff], [0xa640, 0xa69f]] },
+  { bit: 10, name: 'Armenian', blocks: [[0x0530, 0x058f]] },
+  { bit: 11, name: 'Hebrew', blocks: [[0x0590, 0x05ff]] },
+  { bit: 12, name: 'Vai', blocks: [[0xa500, 0xa63f]] },
+  { bit: 13, name: 'Arabic', blocks: [[0x0600, 0x06ff], [0x0750, 0x077f]] },
+  { bit: 14, name: 'NKo', blocks: [[0x07c0, 0x07ff]] },
+  { bit: 15, name: 'Devanagari', blocks: [[0x0900, 0x097f]] },
+  { bit: 16, name: 'Bengali', blocks: [[0x0980, 0x09ff]] },
+  { bit: 17, name: 'Gurmukhi', blocks: [[0x0a00, 0x0a7f]] },
+  { bit: 18, name: 'Gujarati', blocks: [[0x0a80, 0x0aff]] },
+  { bit: 19, name: 'Oriya', blocks: [[0x0b00, 0x0b7f]] },
+  { bit: 20, name: 'Tamil', blocks: [[0x0b80, 0x0bff]] },
+  { bit: 21, name: 'Telugu', blocks: [[0x0c00, 0x0c7f]] },
+  { bit: 22, name: 'Kannada', blocks: [[0x0c80, 0x0cff]] },
+  { bit: 23, name: 'Malayalam', blocks: [[0x0d00, 0x0d7f]] },
+  { bit: 24, name: 'Thai', blocks: [[0x0e00, 0x0e7f]] },
+  { bit: 25, name: 'Lao', blocks: [[0x0e80, 0x0eff]] },
+  { bit: 26, name: 'Georgian', blocks: [[0x10a0, 0x10ff], [0x2d00, 0x2d2f]] },
+  { bit: 27, name: 'Balinese', blocks: [[0x1b00, 0x1b7f]] },
+  { bit: 28, name: 'Hangul Jamo', blocks: [[0x1100, 0x11ff]] },
+  { bit: 29, name: 'Latin Extended Additional', blocks: [[0x1e00, 0x1eff], [0x2c60, 0x2c7f], [0xa720, 0xa7ff]] },
+  { bit: 30, name: 'Greek Extended', blocks: [[0x1f00, 0x1fff]] },
+  { bit: 31, name: 'General Punctuation', blocks: [[0x2000, 0x206f], [0x2e00, 0x2e7f]] },
+  { bit: 32, name: 'Superscripts And Subscripts', blocks: [[0x2070, 0x209f]] },
+  { bit: 33, name: 'Currency Symbols', blocks: [[0x20a0, 0x20cf]] },
+  { bit: 34, name: 'Combining Diacritical Marks For Symbols', blocks: [[0x20d0, 0x20ff]] },
+  { bit: 35, name: 'Letterlike Symbols', blocks: [[0x2100, 0x214f]] },
+  { bit: 36, name: 'Number Forms', blocks: [[0x2150, 0x218f]] },
+  { bit: 37, name: 'Arrows', blocks: [[0x2190, 0x21ff], [0x27f0, 0x27ff], [0x2900, 0x297f], [0x2b00, 0x2bff]] },
+  { bit: 38, name: 'Mathematical Operators', blocks: [[0x2200, 0x22ff], [0x2a00, 0x2aff], [0x27c0, 0x27ef], [0x2980, 0x29ff]] },
+  { bit: 39, name: 'Miscellaneous Technical', blocks: [[0x2300, 0x23ff]] },
+  { bit: 40, name: 'Control Pictures', blocks: [[0x2400, 0x243f]] },
+  { bit: 41, name: 'Optical Character Recognition', blocks: [[0x2440, 0x245f]] },
+  { bit: 42, name: 'Enclosed Alphanumerics', blocks: [[0x2460, 0x24ff]] },
+  { bit: 43, name: 'Box Drawing', blocks: [[0x2500, 0x257f]] },
+  { bit: 44, name: 'Block Elements', blocks: [[0x2580, 0x259f]] },
+  { bit: 45, name: 'Geometric Shapes', blocks: [[0x25a0, 0x25ff]] },
+  { bit: 46, name: 'Miscellaneous Symbols', blocks: [[0x2600, 0x26ff]] },
+  { bit: 47, name: 'Dingbats', blocks: [[0x2700, 0x27bf]] },
+  { bit: 48, name: 'CJK Symbols And Punctuation', blocks: [[0x3000, 0x303f]] },
+  { bit: 49, name: 'Hiragana', blocks: [[0x3040, 0x309f]] },
+  { bit: 50, name: 'Katakana', blocks: [[0x30a0, 0x30ff], [0x31f0, 0x31ff]] },
+  { bit: 51, name: 'Bopomofo', blocks: [[0x3100, 0x312f], [0x31a0, 0x31bf]] },
+  { bit: 52, name: 'Hangul Compatibility Jamo', blocks: [[0x3130, 0x318f]] },
+  { bit: 53, name: 'Phags-pa', blocks: [[0xa840, 0xa87f]] },
+  { bit: 54, name: 'Enclosed CJK Letters And Months', blocks: [[0x3200, 0x32ff]] },
+  { bit: 55, name: 'CJK Compatibility', blocks: [[0x3300, 0x33ff]] },
+  { bit: 56, name: 'Hangul Syllables', blocks: [[0xac00, 0xd7af]] },
+  // 此位元表示字體含有 BMP 以外的字元
+  { bit: 57, name: 'Non-Plane 0', blocks: [[0x10000, 0x10ffff]] },
+  { bit: 58, name: 'Phoenician', blocks: [[0x10900, 0x1091f]] },
+  {
+    bit: 59,
+    name: 'CJK Unified Ideographs',
+    blocks: [[0x4e00, 0x9fff], [0x2e80, 0x2fff], [0x3190, 0x319f], [0x3400, 0x4dbf], [0x20000, 0x2a6df]],
+  },
+  { bit: 60, name: 'Private Use Area (plane 0)', blocks: [[0xe000, 0xf8ff]] },
+  { bit: 61, name: 'CJK Strokes', blocks: [[0x31c0, 0x31ef], [0xf900, 0xfaff], [0x2f800, 0x2fa1f]] },
+  { bit: 62, name: 'Alphabetic Presentation Forms', blocks: [[0xfb00, 0xfb4f]] },
+  { bit: 63, name: 'Arabic Presentation Forms-A', blocks: [[0xfb50, 0xfdff]] },
+  { bit: 64, name: 'Combining Half Marks', blocks: [[0xfe20, 0xfe2f]] },
+  { bit: 65, name: 'Vertical Forms', blocks: [[0xfe10, 0xfe1f], [0xfe30, 0xfe4f]] },
+  { bit: 66, name: 'Small Form Variants', blocks: [[0xfe50, 0xfe6f]] },
+  { bit: 67, name: 'Arabic Presentation Forms-B', blocks: [[0xfe70, 0xfeff]] },
+  { bit: 68, name: 'Halfwidth And Fullwidth Forms', blocks: [[0xff00, 0xffef]] },
+  { bit: 69, name: 'Specials', blocks: [[0xfff0, 0xffff]] },
+  { bit: 70, name: 'Tibetan', blocks: [[0x0f00, 0x0fff]] },
+  { bit: 71, name: 'Syriac', blocks: [[0x0700, 0x074f]] },
+  { bit: 72, name: 'Thaana', blocks: [[0x0780, 0x07bf]] },
+  { bit: 73, name: 'Sinhala', blocks: [[0x0d80, 0x0dff]] },
+  { bit: 74, name: 'Myanmar', blocks: [[0x1000, 0x109f]] },
+  { bit: 75, name: 'Ethiopic', blocks: [[0x1200, 0x139f], [0x2d80, 0x2ddf]] },
+  { bit: 76, name: 'Cherokee', blocks: [[0x13a0, 0x13ff]] },
+  { bit: 77, name: 'Unified Canadian Aboriginal Syllabics', blocks: [[0x1400, 0x167f]] },
+  { bit: 78, name: 'Ogham', blocks: [[0x1680, 0x169f]] },
+  { bit: 79, name: 'Runic', blocks: [[0x16a0, 0x16ff]] },
+  { bit: 80, name: 'Khmer', blocks: [[0x1780, 0x17ff], [0x19e0, 0x19ff]] },
+  { bit: 81, name: 'Mongolian', blocks: [[0x1800, 0x18af]] },
+  { bit: 82, name: 'Braille Patterns', blocks: [[0x2800, 0x28ff]] },
+  { bit: 83, name: 'Yi Syllables', blocks: [[0xa000, 0xa4cf]] },
+  { bit: 84, name: 'Tagalog', blocks: [[0x1700, 0x177f]] },
+  { bit: 85, name: 'Old Italic', blocks: [[0x10300, 0x1032f]] },
+  { bit: 86, name: 'Gothic', blocks: [[0x10330, 0x1034f]] },
+  { bit: 87, name: 'Deseret', blocks: [[0x10400, 0x1044f]] },
+  { bit: 88, name: 'Byzantine Musical Symbols', blocks: [[0x1d000, 0x1d24f]] },
+  { bit: 89, name: 'Mathematical Alphanumeric Symbols', blocks: [[0x1d400, 0x1d7ff]] },
+  { bit: 90, name: 'Private Use (plane 15)', blocks: [[0xf0000, 0xffffd], [0x100000, 0x10fffd]] },
+  { bit: 91, name: 'Variation Selectors', blocks: [[0xfe00, 0xfe0f], [0xe0100, 0xe01ef]] },
+  { bit: 92, name: 'Tags', blocks: [[0xe0000, 0xe007f]] },
+  { bit: 93, name: 'Limbu', blocks: [[0x1900, 0x194f]] },
+  { bit: 94, name: 'Tai Le', blocks: [[0x1950, 0x197f]] },
+  { bit: 95, name: 'New Tai Lue', blocks: [[0x1980, 0x19df]] },
+  { bit: 96, name: 'Buginese', blocks: [[0x1a00, 0x1a1f]] },
+  { bit: 97, name: 'Glagolitic', blocks: [[0x2c00, 0x2c5f]] },
+  { bit: 98, name: 'Tifinagh', blocks: [[0x2d30, 0x2d7f]] },
+  { bit: 99, name: 'Yijing Hexagram Symbols', blocks: [[0x4dc0, 0x4dff]] },
+  { bit: 100, name: 'Syloti Nagri', blocks: [[0xa800, 0xa82f]] },
+  { bit: 101, name: 'Linear B Syllabary', blocks: [[0x10000, 0x1013f]] },
+  { bit: 102, name: 'Ancient Greek Numbers', blocks: [[0x10140, 0x1018f]] },
+  { bit: 103, name: 'Ugaritic', blocks: [[0x10380, 0x1039f]] },
+  { bit: 104, name: 'Old Persian', blocks: [[0x103a0, 0x103df]] },
+  { bit: 105, name: 'Shavian', blocks: [[0x10450, 0x1047f]] },
+  { bit: 106, name: 'Osmanya', blocks: [[0x10480, 0x104af]] },
+  { bit: 107, name: 'Cypriot Syllabary', blocks: [[0x10800, 0x1083f]] },
+  { bit: 108, name: 'Kharoshthi', blocks: [[0x10a00, 0x10a5f]] },
+  { bit: 109, name: 'Tai Xuan Jing Symbols', blocks: [[0x1d300, 0x1d35f]] },
+  { bit: 110, name: 'Cuneiform', blocks: [[0x12000, 0x1247f]] },
+  { bit: 111, name: 'Counting Rod Numerals', blocks: [[0x1d360, 0x1d37f]] },
+  { bit: 112, name: 'Sundanese', blocks: [[0x1b80, 0x1bbf]] },
+  { bit: 113, name: 'Lepcha', blocks: [[0x1c00, 0x1c4f]] },
+  { bit: 114, name: 'Ol Chiki', blocks: [[0x1c50, 0x1c7f]] },
+  { bit: 115, name: 'Saurashtra', blocks: [[0xa880, 0xa8df]] },
+  { bit: 116, name: 'Kayah Li', blocks: [[0xa900, 0xa92f]] },
+  { bit: 117, name: 'Rejang', blocks: [[0xa930, 0xa95f]] },
+  { bit: 118, name: 'Cham', blocks: [[0xaa00, 0xaa5f]] },
+  { bit: 119, name: 'Ancient Symbols', blocks: [[0x10190, 0x101cf]] },
+  { bit: 120, name: 'Phaistos Disc', blocks: [[0x101d0, 0x101ff]] },
+  { bit: 121, name: 'Carian', blocks: [[0x102a0, 0x102df], [0x10280, 0x1029f], [0x10920, 0x1093f]] },
+  { bit: 122, name: 'Domino Tiles', blocks: [[0x1f000, 0x1f09f]] },
+];
+
+/** Code points mapped by the font's cmap, excluding those that only map to .notdef. */
+export const getMappedCodePoints = (font: opentype.Font): number[] =>
+  Object.entries(font.tables?.cmap?.glyphIndexMap ?? {})
+    .filter(([, glyphIndex]) => Number(glyphIndex) > 0)
+    .map(([codePoint]) => Number(codePoint));
+
+const isDeclared = (os2: Record<string, number> | undefined, bit: number) => {
+  const field = os2?.[`ulUnicodeRange${Math.floor(bit / 32) + 1}`] ?? 0;
+  return ((field >>> (bit % 32)) & 1) === 1;
+};
+
+/**
+ * Unicode ranges the font declares in OS/2 or actually maps in cmap, in bit order.
+ * A declared range with no code points (or the reverse) usually means stale OS/2 data.
+ */
+export const getUnicodeRangeCoverage = (font: opentype.Font): UnicodeRangeCoverage[] => {
+  const codePoints = getMappedCodePoints(font);
+  const os2 = font.tables?.os2;
+
+  return UNICODE_RANGE_BITS
+    .map(({ bit, name, blocks }) => ({
+      bit,
+      name,
+      declared: isDeclared(os2, bit),
+      codePoints: codePoints.filter(cp => blocks.some(([start, end]) => cp >= start && cp <= end)).length,
+      total: blocks.reduce((sum, [start, end]) => sum + end - start + 1, 0),
+    }))
+    .filter(range => range.declared || range.codePoints > 0);
+};
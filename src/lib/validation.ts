@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 輸出前檢查：逐一字體確認字樣是否超出文字範圍、是否有行被裁切，以及是否缺字而改用其他字體
+
+import { LoadedFont, SpecimenSettings, FitResult, ClipCheckOptions, fitSpecimenText, countClippedLines, hasOverflow, getCollageLabelHeight } from './specimen';
+import { getSpecimenKind, isPagedSpecimenKind } from './presets';
+import { getMissingCodePoints, formatCodePoint } from './coverage';
+
+export type FontValidation = {
+  font: LoadedFont;
+  /** Font size and letter spacing the export will use, and how far the text extends past the text area. */
+  fit: FitResult;
+  clippedLines: number;
+  /** Code points without a glyph, drawn in a fallback font (canvas) or as .notdef (glyph paths). */
+  missing: number[];
+};
+
+// error：有行被裁切，輸出會遺失內容；warning：超出文字範圍或缺字，仍可輸出
+export type ValidationSeverity = 'ok' | 'warning' | 'error';
+
+export const validateSpecimens = (
+  ctx: CanvasRenderingContext2D,
+  fonts: LoadedFont[],
+  settings: SpecimenSettings,
+  width: number,
+  height: number,
+  options: ClipCheckOptions = {}
+): FontValidation[] =>
+  fonts.map(font => {
+    // 階梯字樣與字重比較有各自的版面，不計算文字範圍
+    const fit = getSpecimenKind(settings.size) === 'text'
+      ? fitSpecimenText(ctx, font, settings, width, options.inCollage ? height - getCollageLabelHeight(height) : height)
+      : { fontSize: settings.fontSize, letterSpacing: settings.letterSpacing, overflow: { x: 0, y: 0 } };
+    return {
+      font,
+      fit,
+      clippedLines: countClippedLines(ctx, font, settings, width, height, options),
+      // 字元表只列出字體已有的字形，不檢查缺字
+      missing: isPagedSpecimenKind(getSpecimenKind(settings.size)) ? [] : getMissingCodePoints(font.font, settings.text),
+    };
+  });
+
+export const getValidationSeverity = (validation: FontValidation): ValidationSeverity => {
+  if (validation.clippedLines > 0) return 'error';
+  if (hasOverflow(validation.fit.overflow) || validation.missing.length > 0) return 'warning';
+  return 'ok';
+};
+
+const MISSING_PREVIEW = 8;
+
+/** One short Chinese sentence per problem, for the warnings panel and the export dialogs. */
+export const describeValidation = ({ fit, clippedLines, missing }: FontValidation): string[] => {
+  const issues: string[] = [];
+  if (clippedLines > 0) issues.push(`${clippedLines} 行被裁切`);
+  if (hasOverflow(fit.overflow)) {
+    const parts = [
+      fit.overflow.x > 0 ? `寬 ${Math.ceil(fit.overflow.x)}px` : '',
+      fit.overflow.y > 0 ? `高 ${Math.ceil(fit.overflow.y)}px` : '',
+    ].filter(Boolean);
+    issues.push(`超出文字範圍 ${parts.join(' / ')}`);
+  }
+  if (missing.length > 0) {
+    const preview = missing.slice(0, MISSING_PREVIEW).map(cp => `${String.fromCodePoint(cp)} ${formatCodePoint(cp)}`).join(', ');
+    const more = missing.length > MISSING_PREVIEW ? ` … (+${missing.length - MISSING_PREVIEW})` : '';
+    issues.push(`缺 ${missing.length} 字 — ${preview}${more}`);
+  }
+  return issues;
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 可變字體 (fvar)：讀取軸與具名實例，並轉換為 canvas 可用的 font 簡寫
+// opentype.js 不解析 gvar，字形路徑只能繪製預設實例；軸值僅在 canvas 模式生效
+
+import * as opentype from 'opentype.js';
+import { getLocalizedName } from './fontMetadata';
+import { RenderMode } from './textRenderer';
+
+export type VariationSettings = Record<string, number>;
+
+export type VariationAxis = {
+  tag: string;
+  name: string;
+  min: number;
+  default: number;
+  max: number;
+};
+
+export type NamedInstance = {
+  name: string;
+  coordinates: VariationSettings;
+};
+
+// opentype.js 解析出的 fvar 表（套件未提供型別）
+type FvarAxis = { tag: string; name: Record<string, string>; minValue: number; defaultValue: number; maxValue: number };
+type FvarInstance = { name: Record<string, string>; coordinates: VariationSettings };
+type FvarTable = { axes: FvarAxis[]; instances: FvarInstance[] };
+
+const getFvar = (font: opentype.Font) => font.tables?.fvar as FvarTable | undefined;
+
+export const getVariationAxes = (font: opentype.Font): VariationAxis[] =>
+  (getFvar(font)?.axes ?? []).map(axis => ({
+    tag: axis.tag,
+    name: getLocalizedName(axis.name) || axis.tag,
+    min: axis.minValue,
+    default: axis.defaultValue,
+    max: axis.maxValue,
+  }));
+
+export const isVariableFont = (font: opentype.Font) => getVariationAxes(font).length > 0;
+
+export const formatVariation = (variation: VariationSettings) =>
+  Object.entries(variation).map(([tag, value]) => `${tag} ${value}`).join(' ');
+
+// 名稱 ID < 256 的實例（如 Regular 指向 nameID 2）在 opentype.js 中查不到，改以座標命名
+export const getNamedInstances = (font: opentype.Font): NamedInstance[] =>
+  (getFvar(font)?.instances ?? []).map(instance => ({
+    name: getLocalizedName(instance.name) || formatVariation(instance.coordinates),
+    coordinates: { ...instance.coordinates },
+  }));
+
+export const getDefaultVariation = (font: opentype.Font): VariationSettings =>
+  Object.fromEntries(getVariationAxes(font).map(axis => [axis.tag, axis.default]));
+
+/** Clamps `variation` to the font's own axes; static fonts resolve to undefined so no weight or style is requested. */
+export const resolveVariation = (font: opentype.Font, variation?: VariationSettings): VariationSettings | undefined => {
+  const axes = getVariationAxes(font);
+  if (axes.length === 0) return undefined;
+  return Object.fromEntries(axes.map(axis => {
+    const value = variation?.[axis.tag] ?? axis.default;
+    return [axis.tag, Math.min(axis.max, Math.max(axis.min, value))];
+  }));
+};
+
+/**
+ * FontFace descriptors declaring the ranges of the registered axes, so the browser
+ * varies the font for font-weight / font-stretch / oblique instead of synthesising them.
+ */
+export const getFontFaceDescriptors = (font: opentype.Font): FontFaceDescriptors => {
+  const descriptors: FontFaceDescriptors = {};
+  for (const axis of getVariationAxes(font)) {
+    if (axis.tag === 'wght') descriptors.weight = `${axis.min} ${axis.max}`;
+    if (axis.tag === 'wdth') descriptors.stretch = `${axis.min}% ${axis.max}%`;
+    // slnt 為負值時字形右傾，對應正的 oblique 角度
+    if (axis.tag === 'slnt') descriptors.style = `oblique ${-axis.max}deg ${-axis.min}deg`;
+  }
+  return descriptors;
+};
+
+// canvas 的 font 簡寫只接受 font-stretch 關鍵字
+const STRETCH_KEYWORDS: [number, string][] = [
+  [50, 'ultra-condensed'],
+  [62.5, 'extra-condensed'],
+  [75, 'condensed'],
+  [87.5, 'semi-condensed'],
+  [100, 'normal'],
+  [112.5, 'semi-expanded'],
+  [125, 'expanded'],
+  [150, 'extra-expanded'],
+  [200, 'ultra-expanded'],
+];
+
+const getStretchEntry = (width: number) =>
+  STRETCH_KEYWORDS.reduce((best, entry) => (Math.abs(entry[0] - width) < Math.abs(best[0] - width) ? entry : best));
+
+const getStretchKeyword = (width: number) => getStretchEntry(width)[1];
+
+/** Style, weight and stretch prefix for a canvas `font` string; axes other than wght, wdth, slnt and ital are not expressible there. */
+export const getVariationFontPrefix = (variation?: VariationSettings) => {
+  if (!variation) return '';
+  const parts: string[] = [];
+  if (variation.ital !== undefined && variation.ital >= 0.5) {
+    parts.push('italic');
+  } else if (variation.slnt !== undefined && variation.slnt !== 0) {
+    parts.push(`oblique ${-variation.slnt}deg`);
+  }
+  if (variation.wght !== undefined) parts.push(String(Math.round(variation.wght)));
+  if (variation.wdth !== undefined) parts.push(getStretchKeyword(variation.wdth));
+  return parts.length > 0 ? `${parts.join(' ')} ` : '';
+};
+
+// 只有這些軸能經由 canvas font 簡寫套用，其餘軸在預覽中會維持預設值
+export const CANVAS_AXES = ['wght', 'wdth', 'slnt', 'ital'];
+
+/**
+ * Axis values actually drawn for `variation`: the glyph renderer always draws the default instance, and the canvas
+ * rounds wght, snaps wdth to the nearest font-stretch keyword, treats ital as on / off (dropping slnt when italic)
+ * and leaves every other axis at its default. Undefined for static fonts.
+ */
+export const getRenderedVariation = (
+  font: opentype.Font,
+  variation: VariationSettings | undefined,
+  mode: RenderMode
+): VariationSettings | undefined => {
+  const resolved = resolveVariation(font, variation);
+  if (!resolved) return undefined;
+  if (mode === 'glyph') return getDefaultVariation(font);
+  const isItalic = resolved.ital !== undefined && resolved.ital >= 0.5;
+  return Object.fromEntries(getVariationAxes(font).map(axis => {
+    const value = resolved[axis.tag];
+    switch (axis.tag) {
+      case 'wght': return [axis.tag, Math.round(value)];
+      case 'wdth': return [axis.tag, getStretchEntry(value)[0]];
+      case 'ital': return [axis.tag, isItalic ? 1 : 0];
+      case 'slnt': return [axis.tag, isItalic ? axis.default : value];
+      default: return [axis.tag, axis.default];
+    }
+  }));
+};
+
+/** Tags of the axes whose value in `variation` cannot be drawn as set in `mode`; empty when it renders faithfully. */
+export const getUnrenderedAxes = (font: opentype.Font, variation: VariationSettings | undefined, mode: RenderMode): string[] => {
+  const resolved = resolveVariation(font, variation);
+  const rendered = getRenderedVariation(font, variation, mode);
+  if (!resolved || !rendered) return [];
+  return Object.keys(resolved).filter(tag => resolved[tag] !== rendered[tag]);
+};
@@ -0,0 +1,571 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 向量輸出：以記錄式 2D context 執行與預覽相同的 drawSingleFont / drawCollage，
+// 再將記錄下的字形輪廓、矩形與標註文字序列化為 SVG 或 PDF 路徑
+
+import { jsPDF, GState, PatternData, ShadingPattern } from 'jspdf';
+import { ExportFormat, addResolutionMetadata } from './export';
+import { CanvasFactory } from './specimenBook';
+
+type Point = { x: number; y: number };
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'Z' };
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/** A linear gradient in output coordinates, recorded from createLinearGradient. */
+export type VectorGradient = {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  stops: { offset: number; color: string }[];
+};
+
+export type VectorPaint = string | VectorGradient;
+
+// opacity 為 globalAlpha；rotation 為順時針角度（度），繞 (x, y) 旋轉
+export type VectorOp =
+  | { type: 'fill'; commands: PathCommand[]; color: VectorPaint; opacity: number; clip: Rect | null }
+  | { type: 'stroke'; commands: PathCommand[]; color: string; lineWidth: number; dash: number[]; opacity: number; clip: Rect | null }
+  | {
+      type: 'text';
+      text: string;
+      x: number;
+      y: number;
+      fontSize: number;
+      fontFamily: string;
+      bold: boolean;
+      align: 'left' | 'center' | 'right';
+      baseline: 'top' | 'middle';
+      rotation: number;
+      color: string;
+      opacity: number;
+      clip: Rect | null;
+    }
+  | {
+      type: 'image';
+      /** PNG or JPEG data URL. */
+      href: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      rotation: number;
+      opacity: number;
+      clip: Rect | null;
+    };
+
+export type VectorDrawing = {
+  width: number;
+  height: number;
+  ops: VectorOp[];
+};
+
+export type VectorFormat = Extract<ExportFormat, 'pdf' | 'svg'>;
+
+export const isVectorFormat = (format: ExportFormat): format is VectorFormat =>
+  format === 'pdf' || format === 'svg';
+
+type DrawState = {
+  fillStyle: VectorPaint;
+  strokeStyle: string;
+  lineWidth: number;
+  lineDash: number[];
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  globalAlpha: number;
+  // 仿射矩陣：x' = a·x + c·y + e, y' = b·x + d·y + f
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+  clip: Rect | null;
+};
+
+const intersect = (a: Rect | null, b: Rect): Rect => {
+  if (!a) return b;
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+};
+
+const getBounds = (commands: PathCommand[]): Rect => {
+  const points = commands.filter((c): c is Exclude<PathCommand, { type: 'Z' }> => c.type !== 'Z');
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const parseFont = (font: string) => {
+  const size = /(\d+(?:\.\d+)?)px\s*(.*)$/.exec(font);
+  return {
+    fontSize: size ? Number(size[1]) : 10,
+    fontFamily: size?.[2].trim() || 'sans-serif',
+    bold: /\bbold\b/.test(font),
+  };
+};
+
+// 文字只能以單色繪製，漸層取第一個色標
+const getSolidColor = (paint: VectorPaint) =>
+  typeof paint === 'string' ? paint : paint.stops[0]?.color ?? '#000000';
+
+// 瀏覽器 HTMLImageElement 與 @napi-rs/canvas 的 Image 皆保留原始 src；只記錄內嵌的點陣圖
+const getImageHref = (image: CanvasImageSource) => {
+  const { src } = image as { src?: unknown };
+  return typeof src === 'string' && /^data:image\/(png|jpeg);/.test(src) ? src : null;
+};
+
+/**
+ * A CanvasRenderingContext2D stand-in covering the calls made by the specimen
+ * layout in glyph mode. Geometry is recorded in output coordinates.
+ */
+export const createVectorContext = (width: number, height: number) => {
+  const drawing: VectorDrawing = { width, height, ops: [] };
+  const stack: DrawState[] = [];
+  let state: DrawState = {
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineDash: [],
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    globalAlpha: 1,
+    a: 1,
+    b: 0,
+    c: 0,
+    d: 1,
+    e: 0,
+    f: 0,
+    clip: null,
+  };
+  let path: PathCommand[] = [];
+
+  const point = (x: number, y: number): Point => ({ x: state.a * x + state.c * y + state.e, y: state.b * x + state.d * y + state.f });
+  // 長度（線寬、字級）依 x 軸的縮放換算；旋轉角度取 x 軸方向
+  const getScale = () => Math.hypot(state.a, state.b);
+  const getRotation = () => (Math.atan2(state.b, state.a) * 180) / Math.PI;
+  const strokeOp = (commands: PathCommand[]): VectorOp => ({
+    type: 'stroke',
+    commands,
+    color: state.strokeStyle,
+    lineWidth: state.lineWidth * getScale(),
+    dash: state.lineDash.map(length => length * getScale()),
+    opacity: state.globalAlpha,
+    clip: state.clip,
+  });
+  const rectPath = (x: number, y: number, w: number, h: number): PathCommand[] => [
+    { type: 'M', ...point(x, y) },
+    { type: 'L', ...point(x + w, y) },
+    { type: 'L', ...point(x + w, y + h) },
+    { type: 'L', ...point(x, y + h) },
+    { type: 'Z' },
+  ];
+
+  const context = {
+    get fillStyle() { return state.fillStyle; },
+    set fillStyle(value: VectorPaint) { state.fillStyle = value; },
+    get strokeStyle() { return state.strokeStyle; },
+    set strokeStyle(value: string) { state.strokeStyle = value; },
+    get lineWidth() { return state.lineWidth; },
+    set lineWidth(value: number) { state.lineWidth = value; },
+    get font() { return state.font; },
+    set font(value: string) { state.font = value; },
+    get textAlign() { return state.textAlign; },
+    set textAlign(value: CanvasTextAlign) { state.textAlign = value; },
+    get textBaseline() { return state.textBaseline; },
+    set textBaseline(value: CanvasTextBaseline) { state.textBaseline = value; },
+    get globalAlpha() { return state.globalAlpha; },
+    set globalAlpha(value: number) { state.globalAlpha = value; },
+    // 字距與方向由字形路徑本身處理，這裡僅接受設定
+    direction: 'ltr',
+    letterSpacing: '0px',
+
+    save: () => {
+      stack.push({ ...state });
+    },
+    restore: () => {
+      state = stack.pop() ?? state;
+    },
+    scale: (sx: number, sy: number) => {
+      state.a *= sx;
+      state.b *= sx;
+      state.c *= sy;
+      state.d *= sy;
+    },
+    translate: (x: number, y: number) => {
+      state.e += state.a * x + state.c * y;
+      state.f += state.b * x + state.d * y;
+    },
+    rotate: (angle: number) => {
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const { a, b, c, d } = state;
+      state.a = a * cos + c * sin;
+      state.b = b * cos + d * sin;
+      state.c = c * cos - a * sin;
+      state.d = d * cos - b * sin;
+    },
+
+    // 向量檔的底色即為透明，無需記錄
+    clearRect: () => {},
+    fillRect: (x: number, y: number, w: number, h: number) => {
+      drawing.ops.push({ type: 'fill', commands: rectPath(x, y, w, h), color: state.fillStyle, opacity: state.globalAlpha, clip: state.clip });
+    },
+    setLineDash: (segments: number[]) => {
+      state.lineDash = [...segments];
+    },
+    getLineDash: () => [...state.lineDash],
+    createLinearGradient: (x0: number, y0: number, x1: number, y1: number) => {
+      const start = point(x0, y0);
+      const end = point(x1, y1);
+      const gradient = {
+        x0: start.x,
+        y0: start.y,
+        x1: end.x,
+        y1: end.y,
+        stops: [] as VectorGradient['stops'],
+        addColorStop: (offset: number, color: string) => {
+          gradient.stops.push({ offset, color });
+        },
+      };
+      return gradient;
+    },
+    strokeRect: (x: number, y: number, w: number, h: number) => {
+      drawing.ops.push(strokeOp(rectPath(x, y, w, h)));
+    },
+    fillText: (text: string, x: number, y: number) => {
+      const { fontSize, fontFamily, bold } = parseFont(state.font);
+      const { textAlign } = state;
+      drawing.ops.push({
+        type: 'text',
+        text,
+        ...point(x, y),
+        fontSize: fontSize * getScale(),
+        fontFamily,
+        bold,
+        align: textAlign === 'center' ? 'center' : textAlign === 'right' || textAlign === 'end' ? 'right' : 'left',
+        baseline: state.textBaseline === 'middle' ? 'middle' : 'top',
+        rotation: getRotation(),
+        color: getSolidColor(state.fillStyle),
+        opacity: state.globalAlpha,
+        clip: state.clip,
+      });
+    },
+    drawImage: (image: CanvasImageSource, x: number, y: number, w: number, h: number) => {
+      const href = getImageHref(image);
+      if (!href) return;
+      drawing.ops.push({
+        type: 'image',
+        href,
+        ...point(x, y),
+        width: w * getScale(),
+        height: h * getScale(),
+        rotation: getRotation(),
+        opacity: state.globalAlpha,
+        clip: state.clip,
+      });
+    },
+
+    beginPath: () => {
+      path = [];
+    },
+    moveTo: (x: number, y: number) => {
+      path.push({ type: 'M', ...point(x, y) });
+    },
+    lineTo: (x: number, y: number) => {
+      path.push({ type: 'L', ...point(x, y) });
+    },
+    bezierCurveTo: (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+      const [c1, c2] = [point(x1, y1), point(x2, y2)];
+      path.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...point(x, y) });
+    },
+    quadraticCurveTo: (x1: number, y1: number, x: number, y: number) => {
+      const control = point(x1, y1);
+      path.push({ type: 'Q', x1: control.x, y1: control.y, ...point(x, y) });
+    },
+    closePath: () => {
+      path.push({ type: 'Z' });
+    },
+    rect: (x: number, y: number, w: number, h: number) => {
+      path.push(...rectPath(x, y, w, h));
+    },
+    fill: () => {
+      if (path.length === 0) return;
+      drawing.ops.push({ type: 'fill', commands: path, color: state.fillStyle, opacity: state.globalAlpha, clip: state.clip });
+    },
+    stroke: () => {
+      if (path.length === 0) return;
+      drawing.ops.push(strokeOp(path));
+    },
+    // 版面只以矩形裁切，取目前路徑的外框即可
+    clip: () => {
+      if (path.length === 0) return;
+      state.clip = intersect(state.clip, getBounds(path));
+    },
+  };
+
+  return { context: context as unknown as CanvasRenderingContext2D, drawing };
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const toSvgPathData = (commands: PathCommand[]) =>
+  commands
+    .map(c => {
+      switch (c.type) {
+        case 'M':
+        case 'L':
+          return `${c.type}${num(c.x)} ${num(c.y)}`;
+        case 'C':
+          return `C${num(c.x1)} ${num(c.y1)} ${num(c.x2)} ${num(c.y2)} ${num(c.x)} ${num(c.y)}`;
+        case 'Q':
+          return `Q${num(c.x1)} ${num(c.y1)} ${num(c.x)} ${num(c.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join('');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const createSvg = (drawing: VectorDrawing, scale = 1) => {
+  const clipIds = new Map<string, string>();
+  const defs: string[] = [];
+  const getFill = (paint: VectorPaint) => {
+    if (typeof paint === 'string') return paint;
+    const id = `gradient${defs.length}`;
+    const stops = paint.stops.map(stop => `<stop offset="${num(stop.offset)}" stop-color="${stop.color}"/>`).join('');
+    defs.push(`<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${num(paint.x0)}" y1="${num(paint.y0)}" x2="${num(paint.x1)}" y2="${num(paint.y1)}">${stops}</linearGradient>`);
+    return `url(#${id})`;
+  };
+  const getClipAttr = (clip: Rect | null) => {
+    if (!clip) return '';
+    const key = [clip.x, clip.y, clip.width, clip.height].map(num).join(',');
+    let id = clipIds.get(key);
+    if (!id) {
+      id = `clip${clipIds.size}`;
+      clipIds.set(key, id);
+      defs.push(`<clipPath id="${id}"><rect x="${num(clip.x)}" y="${num(clip.y)}" width="${num(clip.width)}" height="${num(clip.height)}"/></clipPath>`);
+    }
+    return ` clip-path="url(#${id})"`;
+  };
+
+  const body = drawing.ops.map(op => {
+    const clip = getClipAttr(op.clip);
+    const opacity = op.opacity < 1 ? ` opacity="${num(op.opacity)}"` : '';
+    if (op.type === 'fill') {
+      return `<path d="${toSvgPathData(op.commands)}" fill="${getFill(op.color)}"${opacity}${clip}/>`;
+    }
+    if (op.type === 'stroke') {
+      const dash = op.dash.length > 0 ? ` stroke-dasharray="${op.dash.map(num).join(' ')}"` : '';
+      return `<path d="${toSvgPathData(op.commands)}" fill="none" stroke="${op.color}" stroke-width="${num(op.lineWidth)}"${dash}${opacity}${clip}/>`;
+    }
+
+    // 元素的 transform 也會套用到自身的 clip-path，旋轉時改由外層群組裁切
+    const transform = op.rotation !== 0 ? ` transform="rotate(${num(op.rotation)} ${num(op.x)} ${num(op.y)})"` : '';
+    const wrap = (element: string) => (transform && clip ? `<g${clip}>${element}</g>` : element);
+    const ownClip = transform ? '' : clip;
+    if (op.type === 'image') {
+      return wrap(`<image href="${op.href}" x="${num(op.x)}" y="${num(op.y)}" width="${num(op.width)}" height="${num(op.height)}" preserveAspectRatio="none"${transform}${opacity}${ownClip}/>`);
+    }
+    const anchor = op.align === 'right' ? 'end' : op.align === 'center' ? 'middle' : 'start';
+    const baseline = op.baseline === 'middle' ? 'central' : 'text-before-edge';
+    const weight = op.bold ? ' font-weight="bold"' : '';
+    return wrap(`<text x="${num(op.x)}" y="${num(op.y)}" font-family="${escapeXml(op.fontFamily)}" font-size="${num(op.fontSize)}"${weight} text-anchor="${anchor}" dominant-baseline="${baseline}" fill="${op.color}"${transform}${opacity}${ownClip}>${escapeXml(op.text)}</text>`);
+  });
+
+  const { width, height } = drawing;
+  return [
+    // 倍率只改變預設顯示尺寸，viewBox 維持邏輯座標
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * scale)}" height="${num(height * scale)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].filter(Boolean).join('\n');
+};
+
+const tracePdfPath = (pdf: jsPDF, commands: PathCommand[]) => {
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  for (const c of commands) {
+    switch (c.type) {
+      case 'M':
+        pdf.moveTo(c.x, c.y);
+        current = start = { x: c.x, y: c.y };
+        break;
+      case 'L':
+        pdf.lineTo(c.x, c.y);
+        current = { x: c.x, y: c.y };
+        break;
+      case 'C':
+        pdf.curveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y);
+        current = { x: c.x, y: c.y };
+        break;
+      case 'Q':
+        // PDF 只有三次貝茲曲線，二次控制點換算為兩個三次控制點
+        pdf.curveTo(
+          current.x + (2 / 3) * (c.x1 - current.x),
+          current.y + (2 / 3) * (c.y1 - current.y),
+          c.x + (2 / 3) * (c.x1 - c.x),
+          c.y + (2 / 3) * (c.y1 - c.y),
+          c.x,
+          c.y
+        );
+        current = { x: c.x, y: c.y };
+        break;
+      case 'Z':
+        pdf.close();
+        current = start;
+        break;
+    }
+  }
+};
+
+// PDF 內建字體僅涵蓋 Latin-1 的 Helvetica，其餘標註文字（如中文版權資訊或指定字體）改以高解析度圖片嵌入
+const isLatin1 = (text: string) => /^[\x20-\xff]*$/.test(text);
+const TEXT_IMAGE_SCALE = 4;
+
+const drawPdfTextImage = (pdf: jsPDF, op: Extract<VectorOp, { type: 'text' }>, createCanvas: CanvasFactory) => {
+  const font = `${op.bold ? 'bold ' : ''}${op.fontSize}px ${op.fontFamily}`;
+  const measure = createCanvas(1, 1).getContext('2d') as CanvasRenderingContext2D;
+  measure.font = font;
+  const width = Math.ceil(measure.measureText(op.text).width) + 2;
+  const height = Math.ceil(op.fontSize * 1.4);
+
+  const canvas = createCanvas(width * TEXT_IMAGE_SCALE, height * TEXT_IMAGE_SCALE);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  ctx.scale(TEXT_IMAGE_SCALE, TEXT_IMAGE_SCALE);
+  ctx.font = font;
+  ctx.fillStyle = op.color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = op.baseline;
+  ctx.fillText(op.text, 1, op.baseline === 'middle' ? height / 2 : 0);
+
+  const left = op.align === 'right' ? op.x - width : op.align === 'center' ? op.x - width / 2 : op.x;
+  const top = op.baseline === 'middle' ? op.y - height / 2 : op.y;
+  pdf.addImage(canvas.toDataURL('image/png'), 'PNG', left, top, width, height, undefined, 'FAST');
+};
+
+const toRgb = (color: string) => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16) || 0);
+
+// 漸層登記為 PDF 軸向著色 (axial shading)，座標為 pt 且 y 軸向上；僅 advanced 模式可登記，須在描繪路徑之前
+const addPdfGradient = (pdf: jsPDF, gradient: VectorGradient, key: string): PatternData => {
+  const k = pdf.internal.scaleFactor;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const coords = [gradient.x0 * k, (pageHeight - gradient.y0) * k, gradient.x1 * k, (pageHeight - gradient.y1) * k];
+  const stops = gradient.stops.map(stop => ({ offset: stop.offset, color: toRgb(stop.color) }));
+  pdf.advancedAPI(api => api.addShadingPattern(key, new ShadingPattern('axial', coords, stops)));
+  return { key, matrix: pdf.unitMatrix };
+};
+
+// 以 (x, y) 為中心順時針旋轉之後的繪製；PDF 座標以 pt 為單位且 y 軸向上
+const rotatePdf = (pdf: jsPDF, x: number, y: number, degrees: number) => {
+  const k = pdf.internal.scaleFactor;
+  const px = x * k;
+  const py = (pdf.internal.pageSize.getHeight() - y) * k;
+  const angle = (-degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  pdf.setCurrentTransformationMatrix(pdf.Matrix(cos, sin, -sin, cos, px - px * cos + py * sin, py - px * sin - py * cos));
+};
+
+/**
+ * Writes a recorded drawing as a single-page PDF of the same pixel size, with glyphs as vector outlines.
+ * Outlines need no extra pixels, so `scale` is only recorded as the document's DPI; text drawn as images
+ * is already rendered at TEXT_IMAGE_SCALE, which covers every export scale.
+ */
+export const createVectorPdf = (drawing: VectorDrawing, createCanvas?: CanvasFactory, scale = 1) =>
+  createPagedVectorPdf([drawing], createCanvas, scale);
+
+const getOrientation = ({ width, height }: VectorDrawing) => (width > height ? 'landscape' : 'portrait');
+
+/** One PDF page per recorded drawing, each at its own size; used for specimens that paginate. */
+export const createPagedVectorPdf = (drawings: VectorDrawing[], createCanvas?: CanvasFactory, scale = 1) => {
+  const [first] = drawings;
+  const pdf = new jsPDF({
+    orientation: getOrientation(first),
+    unit: 'px',
+    format: [first.width, first.height],
+    compress: true,
+  });
+
+  addResolutionMetadata(pdf, scale);
+
+  // 著色名稱在整份文件中不可重複
+  let gradientCount = 0;
+  drawings.forEach((drawing, index) => {
+    if (index > 0) pdf.addPage([drawing.width, drawing.height], getOrientation(drawing));
+    for (const op of drawing.ops) {
+      const rotated = (op.type === 'text' || op.type === 'image') && op.rotation !== 0 ? op : null;
+      const isIsolated = op.clip !== null || op.opacity < 1 || rotated !== null;
+      if (isIsolated) pdf.saveGraphicsState();
+      if (op.clip) {
+        pdf.rect(op.clip.x, op.clip.y, op.clip.width, op.clip.height, null);
+        pdf.clip();
+        pdf.discardPath();
+      }
+      if (op.opacity < 1) pdf.setGState(new GState({ opacity: op.opacity, 'stroke-opacity': op.opacity }));
+      if (rotated) rotatePdf(pdf, rotated.x, rotated.y, rotated.rotation);
+
+      if (op.type === 'fill') {
+        // 顏色與著色須在描繪路徑之前設定，路徑建構之中不可插入其他運算子
+        let pattern: PatternData | undefined;
+        if (typeof op.color === 'string') pdf.setFillColor(op.color);
+        else pattern = addPdfGradient(pdf, op.color, `gradient${gradientCount++}`);
+        tracePdfPath(pdf, op.commands);
+        pdf.fill(pattern);
+      } else if (op.type === 'stroke') {
+        pdf.setDrawColor(op.color);
+        pdf.setLineWidth(op.lineWidth);
+        pdf.setLineDashPattern(op.dash, 0);
+        tracePdfPath(pdf, op.commands);
+        pdf.stroke();
+      } else if (op.type === 'image') {
+        pdf.addImage(op.href, op.href.startsWith('data:image/png') ? 'PNG' : 'JPEG', op.x, op.y, op.width, op.height, undefined, 'FAST');
+      } else if ((isLatin1(op.text) && op.fontFamily === 'sans-serif') || !createCanvas) {
+        pdf.setFont('helvetica', op.bold ? 'bold' : 'normal');
+        // setFontSize 以 pt 為單位，換算成與頁面相同的 px 單位
+        pdf.setFontSize(op.fontSize * pdf.internal.scaleFactor);
+        pdf.setTextColor(op.color);
+        pdf.text(op.text, op.x, op.y, { align: op.align, baseline: op.baseline });
+      } else {
+        drawPdfTextImage(pdf, op, createCanvas);
+      }
+
+      if (isIsolated) pdf.restoreGraphicsState();
+    }
+  });
+  return pdf;
+};
+
+/** Serialises a recorded drawing to file bytes in the requested vector format. */
+export const encodeVector = (drawing: VectorDrawing, format: VectorFormat, createCanvas?: CanvasFactory, scale = 1) =>
+  format === 'svg'
+    ? new TextEncoder().encode(createSvg(drawing, scale))
+    : new Uint8Array(createVectorPdf(drawing, createCanvas, scale).output('arraybuffer'));
+
+/** Paginated drawings as files: one SVG per page, or a single multi-page PDF. */
+export const encodeVectorPages = (drawings: VectorDrawing[], format: VectorFormat, createCanvas?: CanvasFactory, scale = 1) =>
+  format === 'svg'
+    ? drawings.map(drawing => new TextEncoder().encode(createSvg(drawing, scale)))
+    : [new Uint8Array(createPagedVectorPdf(drawings, createCanvas, scale).output('arraybuffer'))];
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 最小 ZIP 寫入器：僅儲存 (method 0)，PNG/JPG/PDF 本身已壓縮，無需再 deflate
+
+import { getUniqueFileName } from './export';
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Stores `entries` uncompressed, renaming duplicates to `name-2.ext`, `name-3.ext`…
+ * `describe`, when given, receives the final names in entry order and returns one more entry (e.g. a manifest)
+ * that is appended last, so anything it lists matches the archive.
+ */
+export const createZip = (
+  entries: ZipEntry[],
+  describe?: (names: string[]) => ZipEntry,
+  modified: Date = new Date()
+): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  // 同名項目多數解壓工具會覆寫或拒絕，重複的名稱加上序號
+  const usedNames = new Set<string>();
+  const named = entries.map(entry => ({ ...entry, name: getUniqueFileName(entry.name, usedNames) }));
+  if (describe) {
+    const extra = describe(named.map(entry => entry.name));
+    named.push({ ...extra, name: getUniqueFileName(extra.name, usedNames) });
+  }
+
+  const records = named.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = records.reduce((sum, r) => sum + 30 + r.name.length + r.data.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+
+  for (const r of records) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, r.crc, true);
+    view.setUint32(offset + 18, r.data.length, true);
+    view.setUint32(offset + 22, r.data.length, true);
+    view.setUint16(offset + 26, r.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(r.name, offset + 30);
+    out.set(r.data, offset + 30 + r.name.length);
+    offset += 30 + r.name.length + r.data.length;
+  }
+
+  const centralStart = offset;
+  records.forEach((r, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, r.crc, true);
+    view.setUint32(offset + 20, r.data.length, true);
+    view.setUint32(offset + 24, r.data.length, true);
+    view.setUint16(offset + 28, r.name.length, true);
+    // extra field, comment, disk number, internal and external attributes stay zero
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(r.name, offset + 46);
+    offset += 46 + r.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return out;
+};
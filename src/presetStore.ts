@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// 使用者匯入的語言預設、自訂尺寸範本與著作資訊設定檔（IndexedDB），與內建預設合併顯示
+
+import { LanguagePreset } from './lib/presets';
+import { SizeTemplate } from './lib/sizeTemplates';
+import { CopyrightProfile } from './lib/copyright';
+import { createStoreRunner } from './indexedDb';
+
+const DB_NAME = 'hyfont-presets';
+const DB_VERSION = 3;
+const LANGUAGE_STORE = 'languages';
+const SIZE_STORE = 'sizes';
+const COPYRIGHT_STORE = 'copyright';
+
+// 版本 2 新增尺寸範本、版本 3 新增著作資訊設定檔；逐一建立尚不存在的 store，保留舊版資料
+const withStore = createStoreRunner(DB_NAME, DB_VERSION, db => {
+  for (const store of [LANGUAGE_STORE, SIZE_STORE, COPYRIGHT_STORE]) {
+    if (!db.objectStoreNames.contains(store)) {
+      db.createObjectStore(store, { keyPath: 'id' });
+    }
+  }
+});
+
+export const listCustomPresets = async (): Promise<LanguagePreset[]> => {
+  const presets = await withStore<LanguagePreset[]>(LANGUAGE_STORE, 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCustomPreset = (preset: LanguagePreset) =>
+  withStore(LANGUAGE_STORE, 'readwrite', store => store.put(preset));
+
+export const deleteCustomPreset = (id: string) =>
+  withStore(LANGUAGE_STORE, 'readwrite', store => store.delete(id));
+
+export const listSizeTemplates = async (): Promise<SizeTemplate[]> => {
+  const templates = await withStore<SizeTemplate[]>(SIZE_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const saveSizeTemplate = (template: SizeTemplate) =>
+  withStore(SIZE_STORE, 'readwrite', store => store.put(template));
+
+export const deleteSizeTemplate = (id: string) =>
+  withStore(SIZE_STORE, 'readwrite', store => store.delete(id));
+
+export const listCopyrightProfiles = async (): Promise<CopyrightProfile[]> => {
+  const profiles = await withStore<CopyrightProfile[]>(COPYRIGHT_STORE, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCopyrightProfile = (profile: CopyrightProfile) =>
+  withStore(COPYRIGHT_STORE, 'readwrite', store => store.put(profile));
+
+export const deleteCopyrightProfile = (id: string) =>
+  withStore(COPYRIGHT_STORE, 'readwrite', store => store.delete(id));